@@ -1,10 +1,30 @@
 "use server";
 import { ZodError } from "zod";
+import { clearLoginFailures } from "../lib/loginThrottle";
+import { absoluteUrl, sendMail } from "../lib/mailer";
 import connectDB from "../lib/mongodb";
-import { userResgistrationSchema } from "../lib/validations";
+import { revokeAllSessions } from "../lib/sessions";
+import { createToken, hashToken } from "../lib/tokens";
+import {
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  userResgistrationSchema,
+} from "../lib/validations";
 import DiscussUser from "../model/DiscussUser";
 import bcrypt from "bcryptjs";
 
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function sendVerificationEmail(email: string, token: string) {
+  await sendMail({
+    to: email,
+    subject: "Verify your email address",
+    text: `Welcome! Open this link to verify your email address and finish setting up your account:\n\n${absoluteUrl(
+      `/verify-email?token=${token}`
+    )}\n\nThe link expires in 24 hours.`,
+  });
+}
+
 export async function createDiscussAccount(
   email: string,
   password: string,
@@ -35,17 +55,215 @@ export async function createDiscussAccount(
 
     const encrytedPassword = await bcrypt.hash(validation.data.password, 12);
 
+    const { token, hash } = createToken();
     await DiscussUser.create({
       email: validation.data.email,
       password: encrytedPassword,
       fullName: validation.data.fullName,
+      emailVerified: null,
+      emailVerificationToken: hash,
+      emailVerificationExpires: new Date(
+        Date.now() + EMAIL_VERIFICATION_TTL_MS
+      ),
     });
+    await sendVerificationEmail(validation.data.email, token);
     return { success: true };
   } catch (error) {
     if (error instanceof ZodError) {
       return { success: false, error: error.issues[0]?.message };
     } else {
       console.log("An unexpected error occurred", error);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+// Like password reset, this never says whether the address has an account.
+export async function resendVerificationEmail(email: string) {
+  const validation = forgotPasswordSchema.safeParse({ email });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    await connectDB();
+
+    const { token, hash } = createToken();
+    const user = await DiscussUser.findOneAndUpdate(
+      { email: validation.data.email, emailVerified: { $type: "null" } },
+      {
+        $set: {
+          emailVerificationToken: hash,
+          emailVerificationExpires: new Date(
+            Date.now() + EMAIL_VERIFICATION_TTL_MS
+          ),
+        },
+      }
+    );
+    if (user) {
+      await sendVerificationEmail(user.email, token);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.log("An unexpected error occurred", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function verifyEmail(token: string) {
+  if (!token) {
+    return { success: false, error: "This link is invalid or has expired" };
+  }
+
+  try {
+    await connectDB();
+
+    const user = await DiscussUser.findOneAndUpdate(
+      {
+        emailVerificationToken: hashToken(token),
+        emailVerificationExpires: { $gt: new Date() },
+      },
+      {
+        $set: {
+          emailVerified: new Date(),
+          emailVerificationToken: null,
+          emailVerificationExpires: null,
+        },
+      }
+    );
+    if (!user) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.log("An unexpected error occurred", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// Always reports success so the form can't be used to find out which
+// addresses have accounts.
+export async function requestPasswordReset(email: string) {
+  const validation = forgotPasswordSchema.safeParse({ email });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    await connectDB();
+
+    const user = await DiscussUser.findOne({ email: validation.data.email });
+    if (user) {
+      const { token, hash } = createToken();
+      await DiscussUser.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            passwordResetToken: hash,
+            passwordResetExpires: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+          },
+        }
+      );
+
+      await sendMail({
+        to: user.email,
+        subject: "Reset your password",
+        text: `Someone asked to reset the password for your account. Open this link to choose a new one:\n\n${absoluteUrl(
+          `/reset-password?token=${token}`
+        )}\n\nThe link expires in 1 hour and can only be used once. If you didn't ask for this, you can ignore this email.`,
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.log("An unexpected error occurred", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function resetPassword(token: string, password: string) {
+  const validation = resetPasswordSchema.safeParse({ token, password });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    await connectDB();
+
+    const encrytedPassword = await bcrypt.hash(validation.data.password, 12);
+
+    // Matching on the token and clearing it in the same update makes the
+    // link single-use even if it is submitted twice at once.
+    const user = await DiscussUser.findOneAndUpdate(
+      {
+        passwordResetToken: hashToken(validation.data.token),
+        passwordResetExpires: { $gt: new Date() },
+      },
+      {
+        $set: {
+          password: encrytedPassword,
+          // Following the emailed link proves the address is theirs.
+          emailVerified: new Date(),
+          passwordResetToken: null,
+          passwordResetExpires: null,
+        },
+      }
+    );
+    if (!user) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    // Whoever knew the old password may still be signed in somewhere.
+    await revokeAllSessions(user._id.toString());
+    await clearLoginFailures(user.email);
+
+    return { success: true };
+  } catch (error) {
+    console.log("An unexpected error occurred", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function unlockAccount(token: string) {
+  if (!token) {
+    return { success: false, error: "This link is invalid or has expired" };
+  }
+
+  try {
+    await connectDB();
+
+    const user = await DiscussUser.findOneAndUpdate(
+      {
+        unlockToken: hashToken(token),
+        unlockExpires: { $gt: new Date() },
+      },
+      { $set: { unlockToken: null, unlockExpires: null } }
+    );
+    if (!user) {
+      return { success: false, error: "This link is invalid or has expired" };
     }
+
+    await clearLoginFailures(user.email);
+
+    return { success: true };
+  } catch (error) {
+    console.log("An unexpected error occurred", error);
+    return { success: false, error: "An unexpected error occurred" };
   }
 }
@@ -1,41 +1,204 @@
 "use server";
 
+import { Types } from "mongoose";
 import { ZodError } from "zod";
 import { auth } from "../lib/auth";
+import { currentVote, Vote, VoteResult, votePipeline } from "../lib/votes";
+import { markdownExcerpt, renderMarkdown } from "../lib/markdown";
 import connectDB from "../lib/mongodb";
+import { ReactionSummary, summarizeReactions } from "../lib/reactions";
+import { cursorFilter, paginate } from "../lib/pagination";
+import { withPostingLimits } from "../lib/postingLimits";
 import { createCommentSchema } from "../lib/validations";
-import DiscussComment from "../model/DiscussComment";
+import DiscussComment, {
+  CommentRevision,
+  DiscussCommentDoc,
+} from "../model/DiscussComment";
+import DiscussDiscussion from "../model/DiscussDiscussion";
+
+export type CommentNode = {
+  _id: string;
+  userId: string;
+  discussId: string;
+  parentId: string | null;
+  description: string;
+  descriptionHtml: string;
+  upVote: number;
+  downVote: number;
+  score: number;
+  createdAt: string;
+  createdBy: string;
+  currentVote: Vote;
+  isOwner: boolean;
+  isDeleted: boolean;
+  editedAt: string | null;
+  reactions: ReactionSummary[];
+  replies: CommentNode[];
+};
+
+export type UserCommentItem = {
+  _id: string;
+  discussId: string;
+  discussionTitle: string;
+  excerpt: string;
+  score: number;
+  createdAt: string;
+};
+
+type PopulatedComment = Omit<DiscussCommentDoc, "userId"> & {
+  _id: Types.ObjectId;
+  userId: { _id: Types.ObjectId; fullName: string } | null;
+};
+
+const COMMENT_PAGE_SIZE = 20;
+
+async function toCommentNode(
+  comment: PopulatedComment,
+  currentUserId?: string
+): Promise<CommentNode> {
+  if (comment.isDeleted) {
+    return {
+      _id: comment._id.toString(),
+      userId: "",
+      discussId: comment.discussId,
+      parentId: comment.parentId || null,
+      description: "",
+      descriptionHtml: "",
+      upVote: 0,
+      downVote: 0,
+      score: 0,
+      createdAt: comment.createdAt.toISOString(),
+      createdBy: "[deleted]",
+      currentVote: "none",
+      isOwner: false,
+      isDeleted: true,
+      editedAt: null,
+      reactions: summarizeReactions(undefined),
+      replies: [],
+    };
+  }
+
+  return {
+    _id: comment._id.toString(),
+    userId: comment.userId?._id.toString() ?? "",
+    discussId: comment.discussId,
+    parentId: comment.parentId || null,
+    description: comment.description,
+    descriptionHtml: await renderMarkdown(comment.description),
+    upVote: comment.upVote,
+    downVote: comment.downVote ?? 0,
+    score: comment.score ?? comment.upVote,
+    createdAt: comment.createdAt.toISOString(),
+    createdBy: comment.userId?.fullName || "Unknown User",
+    currentVote: currentVote(comment, currentUserId),
+    isOwner:
+      !!currentUserId && comment.userId?._id.toString() === currentUserId,
+    isDeleted: false,
+    editedAt: comment.editedAt?.toISOString() ?? null,
+    reactions: summarizeReactions(comment.reactions, currentUserId),
+    replies: [],
+  };
+}
+
+// Loads every descendant of the given comments one tree level at a time, so
+// the number of queries grows with thread depth rather than comment count.
+// Filtering on the discussion too keeps each level on the thread index.
+async function withReplies(discussId: string, roots: PopulatedComment[]) {
+  const comments = [...roots];
+  let frontier = roots.map((comment) => comment._id.toString());
+
+  while (frontier.length > 0) {
+    const replies: PopulatedComment[] = await DiscussComment.find({
+      discussId,
+      parentId: { $in: frontier },
+    })
+      .populate("userId", "fullName")
+      .sort({ createdAt: 1, _id: 1 })
+      .lean();
+
+    comments.push(...replies);
+    frontier = replies.map((reply) => reply._id.toString());
+  }
+  return comments;
+}
+
+function buildCommentTree(comments: CommentNode[]) {
+  const byId = new Map(comments.map((comment) => [comment._id, comment]));
+  const roots: CommentNode[] = [];
+
+  for (const comment of comments) {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(comment);
+    } else {
+      roots.push(comment);
+    }
+  }
+  return roots;
+}
 
 export default async function addComment(
   discussId: string,
   description: string,
-  userId: string
+  parentId?: string
 ) {
   const validation = createCommentSchema.safeParse({
     description,
   });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
   try {
     await connectDB();
 
-    const comment = await DiscussComment.create({
-      discussId,
-      description: validation.data?.description,
-      userId,
-      upVote: 0,
-      likedBy: [],
-    });
+    if (parentId) {
+      const parent = await DiscussComment.findOne({
+        _id: parentId,
+        discussId,
+        isDeleted: { $ne: true },
+      });
+      if (!parent) {
+        return { success: false, error: "The comment you replied to is gone" };
+      }
+    }
 
-    return {
-      success: true,
-      data: {
-        _id: comment._id.toString(),
-        discussId: comment.discussId.toString(),
-        userId: comment.userId.toString(),
-        description: comment.description,
-        upVote: comment.upVote,
-        createdAt: comment.createdAt.toISOString(),
-      },
-    };
+    return await withPostingLimits(
+      "comment",
+      validation.data.description,
+      async (userId) => {
+        const comment = await DiscussComment.create({
+          discussId,
+          parentId: parentId || null,
+          description: validation.data.description,
+          userId,
+          upVote: 0,
+          likedBy: [],
+        });
+        await DiscussDiscussion.updateOne(
+          { _id: discussId },
+          { $inc: { commentCount: 1 } }
+        );
+
+        return {
+          success: true as const,
+          data: {
+            _id: comment._id.toString(),
+            discussId: comment.discussId.toString(),
+            parentId: comment.parentId,
+            userId: comment.userId.toString(),
+            description: comment.description,
+            descriptionHtml: await renderMarkdown(comment.description),
+            upVote: comment.upVote,
+            createdAt: comment.createdAt.toISOString(),
+          },
+        };
+      }
+    );
   } catch (error) {
     if (error instanceof ZodError) {
       return { success: false, error: error.issues[0].message };
@@ -46,88 +209,313 @@ export default async function addComment(
   }
 }
 
-export async function getCommentByDiscussionId(discussId: string) {
+export async function getCommentByDiscussionId(
+  discussId: string,
+  cursor?: string
+): Promise<{ comments: CommentNode[]; nextCursor: string | null }> {
   try {
     await connectDB();
     const session = await auth();
     const currentUserId = session?.user?.id;
 
-    const comments = await DiscussComment.find({ discussId })
+    const roots = await DiscussComment.find({
+      discussId,
+      parentId: null,
+      ...cursorFilter(cursor, 1),
+    })
       .populate("userId", "fullName")
       .sort({
         createdAt: 1,
+        _id: 1,
       })
+      .limit(COMMENT_PAGE_SIZE + 1)
       .lean();
 
-    const commentsWithUser = comments.map((comment) => {
-      return {
+    const { page, nextCursor } = paginate(roots, COMMENT_PAGE_SIZE);
+    const comments = await withReplies(discussId, page);
+
+    const nodes = await Promise.all(
+      comments.map((comment) => toCommentNode(comment, currentUserId))
+    );
+    return { comments: buildCommentTree(nodes), nextCursor };
+  } catch (err) {
+    if (err instanceof Error) {
+      console.error("Error fetching comments:", err.message);
+    } else {
+      console.error("An unexpected error occurred", err);
+    }
+    return { comments: [], nextCursor: null };
+  }
+}
+
+export async function getCommentThread(discussId: string, commentId: string) {
+  try {
+    await connectDB();
+    const session = await auth();
+    const currentUserId = session?.user?.id;
+
+    const root = await DiscussComment.findOne({ _id: commentId, discussId })
+      .populate("userId", "fullName")
+      .lean();
+    if (!root) {
+      return null;
+    }
+
+    const comments = await withReplies(discussId, [root]);
+    const nodes = await Promise.all(
+      comments.map((comment) => toCommentNode(comment, currentUserId))
+    );
+    return buildCommentTree(nodes)[0] ?? null;
+  } catch (err) {
+    if (err instanceof Error) {
+      console.error("Error fetching comment thread:", err.message);
+    } else {
+      console.error("An unexpected error occurred", err);
+    }
+    return null;
+  }
+}
+
+export async function getUserComments(
+  userId: string,
+  cursor?: string
+): Promise<{ comments: UserCommentItem[]; nextCursor: string | null }> {
+  try {
+    await connectDB();
+
+    const docs = await DiscussComment.find({
+      userId,
+      isDeleted: { $ne: true },
+      ...cursorFilter(cursor, -1),
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(COMMENT_PAGE_SIZE + 1)
+      .lean();
+
+    const { page, nextCursor } = paginate(docs, COMMENT_PAGE_SIZE);
+
+    const discussions = await DiscussDiscussion.find(
+      { _id: { $in: page.map((comment) => comment.discussId) } },
+      "title"
+    ).lean();
+    const titleById = new Map<string, string>(
+      discussions.map((discussion: { _id: Types.ObjectId; title: string }) => [
+        discussion._id.toString(),
+        discussion.title,
+      ])
+    );
+
+    return {
+      comments: page.map((comment) => ({
         _id: comment._id.toString(),
-        userId: comment.userId.toString(),
         discussId: comment.discussId,
-        description: comment.description,
-        upVote: comment.upVote,
+        discussionTitle: titleById.get(comment.discussId) ?? "",
+        excerpt: markdownExcerpt(comment.description),
+        score: comment.score ?? comment.upVote,
         createdAt: comment.createdAt.toISOString(),
-        createdBy: comment.userId?.fullName || "Unknown User",
-        isLikedByCurrentUser: currentUserId
-          ? comment.likedBy.includes(currentUserId)
-          : false,
-      };
-    });
-    return commentsWithUser;
+      })),
+      nextCursor,
+    };
   } catch (err) {
     if (err instanceof Error) {
-      console.error("Error fetching comments:", err.message);
+      console.error("Error fetching user comments:", err.message);
     } else {
       console.error("An unexpected error occurred", err);
     }
-    return [];
+    return { comments: [], nextCursor: null };
   }
 }
 
-export async function toggleCommentLike(commentId: string) {
+export async function editComment(commentId: string, description: string) {
+  const validation = createCommentSchema.safeParse({ description });
+  if (!validation.success) {
+    return { success: false, error: validation.error.issues[0].message };
+  }
+
   try {
     const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
 
     await connectDB();
 
-    const comment = await DiscussComment.findById(commentId);
+    const comment = await DiscussComment.findById(commentId).select("+history");
+    if (!comment || comment.isDeleted) {
+      return { success: false, error: "Comment not found" };
+    }
+    if (comment.userId.toString() !== userId) {
+      return { success: false, error: "You can only edit your own comments" };
+    }
+    if (comment.description === validation.data.description) {
+      return { success: true };
+    }
 
+    comment.history.push({
+      description: comment.description,
+      createdAt: comment.editedAt ?? comment.createdAt,
+    });
+    comment.description = validation.data.description;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+// Comments with live replies are blanked in place so the thread keeps its
+// shape; leaf comments are removed, along with any deleted ancestors left
+// without replies.
+export async function deleteComment(commentId: string) {
+  try {
+    const session = await auth();
     const userId = session?.user?.id;
-    const hasLiked = comment.likedBy.includes(userId);
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const comment = await DiscussComment.findById(commentId);
+    if (!comment || comment.isDeleted) {
+      return { success: false, error: "Comment not found" };
+    }
+    if (comment.userId.toString() !== userId) {
+      return { success: false, error: "You can only delete your own comments" };
+    }
 
-    let updatedComment;
-    if (hasLiked) {
-      updatedComment = await DiscussComment.findByIdAndUpdate(
-        commentId,
+    const hasReplies = await DiscussComment.exists({
+      discussId: comment.discussId,
+      parentId: commentId,
+    });
+    if (hasReplies) {
+      await DiscussComment.updateOne(
+        { _id: commentId },
         {
-          $pull: { likedBy: userId },
-          $inc: { upVote: -1 },
-        },
-        { new: true }
+          $set: {
+            isDeleted: true,
+            description: "",
+            history: [],
+            reactions: {},
+            editedAt: null,
+          },
+        }
       );
     } else {
-      updatedComment = await DiscussComment.findByIdAndUpdate(
-        commentId,
-        {
-          $push: { likedBy: userId },
-          $inc: { upVote: 1 },
-        },
-        { new: true }
-      );
+      await comment.deleteOne();
+
+      let parentId: string | null = comment.parentId;
+      while (parentId) {
+        const parent = await DiscussComment.findOne({
+          _id: parentId,
+          isDeleted: true,
+        });
+        if (
+          !parent ||
+          (await DiscussComment.exists({
+            discussId: comment.discussId,
+            parentId,
+          }))
+        ) {
+          break;
+        }
+        await parent.deleteOne();
+        parentId = parent.parentId;
+      }
+    }
+
+    await DiscussDiscussion.updateOne(
+      { _id: comment.discussId },
+      { $inc: { commentCount: -1 } }
+    );
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export async function getCommentHistory(commentId: string) {
+  try {
+    await connectDB();
+
+    const comment = await DiscussComment.findById(commentId)
+      .select("+history")
+      .lean();
+    if (!comment || comment.isDeleted) {
+      return [];
+    }
+
+    return [
+      ...(comment.history as CommentRevision[]).map((revision) => ({
+        description: revision.description,
+        createdAt: revision.createdAt.toISOString(),
+      })),
+      {
+        description: comment.description as string,
+        createdAt: (comment.editedAt ?? comment.createdAt).toISOString(),
+      },
+    ];
+  } catch (err) {
+    console.error("Error fetching comment history:", err);
+    return [];
+  }
+}
+
+export async function voteComment(
+  commentId: string,
+  direction: "up" | "down"
+): Promise<VoteResult> {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+    if (direction !== "up" && direction !== "down") {
+      return { success: false, error: "Invalid vote" };
+    }
+
+    await connectDB();
+
+    const updated = await DiscussComment.findOneAndUpdate(
+      { _id: commentId, userId: { $ne: new Types.ObjectId(userId) } },
+      votePipeline(userId, direction),
+      { new: true, updatePipeline: true }
+    );
+    if (!updated) {
+      const exists = await DiscussComment.exists({ _id: commentId });
+      return {
+        success: false,
+        error: exists ? "You can't vote on your own post" : "Comment not found",
+      };
     }
 
     return {
       success: true,
-      upVote: updatedComment?.upVote || 0,
-      likedBy: !hasLiked,
+      upVote: updated.upVote,
+      downVote: updated.downVote,
+      score: updated.score,
+      vote: currentVote(updated, userId),
     };
   } catch (err) {
-    console.error("Error: ", err);
+    console.error("Error in voteComment:", err);
     return {
       success: false,
       error: err instanceof Error ? err.message : "Unknown error",
-      upVote: 0,
-      likedBy: false,
     };
   }
 }
@@ -1,46 +1,209 @@
 "use server";
 
+import { Types } from "mongoose";
 import { auth } from "../lib/auth";
+import { currentVote, VoteResult, votePipeline } from "../lib/votes";
+import { markdownExcerpt, renderMarkdown } from "../lib/markdown";
 import connectDB from "../lib/mongodb";
-import { createDiscussionSchema } from "../lib/validations";
-import DiscussDiscussion from "../model/DiscussDiscussion";
+import { summarizeReactions } from "../lib/reactions";
+import {
+  cursorFilter,
+  decodeScoreCursor,
+  paginate,
+  paginateByScore,
+  scoreCursorFilter,
+} from "../lib/pagination";
+import { withPostingLimits } from "../lib/postingLimits";
+import { updateTagCounts } from "../lib/tags";
+import {
+  createDiscussionSchema,
+  DiscussionSort,
+  TopWindow,
+} from "../lib/validations";
+import DiscussComment from "../model/DiscussComment";
+import DiscussDiscussion, {
+  DiscussionDoc,
+  DiscussionRevision,
+} from "../model/DiscussDiscussion";
 import DiscussUser from "../model/DiscussUser";
+import DiscussView from "../model/DiscussView";
 
-export async function getDiscussions() {
+const PAGE_SIZE = 10;
+
+export type DiscussionFeedOptions = {
+  tag?: string;
+  sort?: DiscussionSort;
+  window?: TopWindow;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const topWindowMs: Record<TopWindow, number | null> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  all: null,
+};
+
+// Older posts can't realistically climb back into the hot list, so ranking
+// only looks this far back and the createdAt index bounds the scan.
+const HOT_WINDOW_MS = 7 * DAY_MS;
+
+// Hot ranks by net score decayed over age in hours; the +1 keeps unvoted
+// posts ordered by recency instead of tying at zero.
+function hotScoreExpression(now: Date) {
+  return {
+    $divide: [
+      { $add: [{ $ifNull: ["$score", 0] }, 1] },
+      {
+        $pow: [
+          {
+            $add: [
+              { $divide: [{ $subtract: [now, "$createdAt"] }, 3600000] },
+              2,
+            ],
+          },
+          1.5,
+        ],
+      },
+    ],
+  };
+}
+
+// Top and most discussed page straight off the stored counters, each with
+// its own index. `repair:counts` fills them in on older documents.
+const storedSortFields = {
+  top: "score",
+  discussed: "commentCount",
+} as const;
+
+type PopulatedDiscussion = Omit<DiscussionDoc, "userId"> & {
+  _id: Types.ObjectId;
+  userId: { _id: Types.ObjectId; fullName: string } | null;
+};
+
+function toDiscussionItem(
+  discussion: PopulatedDiscussion,
+  currentUserId?: string
+) {
+  return {
+    _id: discussion._id.toString(),
+    userId: discussion.userId?._id?.toString(),
+    title: discussion.title,
+    description: discussion.description,
+    excerpt: markdownExcerpt(discussion.description),
+    tags: discussion.tags ?? [],
+    commentCount: discussion.commentCount ?? 0,
+    viewCount: discussion.viewCount ?? 0,
+    upVote: discussion.upVote,
+    downVote: discussion.downVote ?? 0,
+    score: discussion.score ?? discussion.upVote,
+    createdAt: discussion.createdAt.toISOString(),
+    createdBy: discussion.userId?.fullName || "Unknown User",
+    currentVote: currentVote(discussion, currentUserId),
+    isOwner:
+      !!currentUserId && discussion.userId?._id.toString() === currentUserId,
+  };
+}
+
+export async function getDiscussions(
+  options: DiscussionFeedOptions = {},
+  cursor?: string
+) {
   try {
     await connectDB();
 
     const session = await auth();
     const currentUserId = session?.user?.id;
 
-    const discussions = await DiscussDiscussion.find({})
-      .populate("userId", "fullName")
-      .sort({
-        createdAt: -1,
-      });
+    const sort = options.sort ?? "new";
+    const tagFilter = options.tag ? { tags: options.tag } : {};
 
-    const discussionWithUser = discussions.map((discussion) => {
+    // Newest first is a plain keyset walk over the (createdAt, _id) index.
+    if (sort === "new") {
+      const docs = await DiscussDiscussion.find({
+        ...tagFilter,
+        ...cursorFilter(cursor, -1),
+      })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(PAGE_SIZE + 1)
+        .populate("userId", "fullName")
+        .lean<PopulatedDiscussion[]>();
+
+      const { page, nextCursor } = paginate(docs, PAGE_SIZE);
       return {
-        _id: discussion._id.toString(),
-        userId: discussion.userId?.toString(),
-        title: discussion.title,
-        description: discussion.description,
-        upVote: discussion.upVote,
-        createdAt: discussion.createdAt.toISOString(),
-        createdBy: discussion.userId?.fullName,
-        isLikedByCurrentUser: currentUserId
-          ? discussion.likedBy.includes(currentUserId)
-          : false,
+        discussions: page.map((discussion) =>
+          toDiscussionItem(discussion, currentUserId)
+        ),
+        nextCursor,
       };
+    }
+
+    const decoded = cursor ? decodeScoreCursor(cursor) : null;
+    const now = decoded?.now ?? Date.now();
+
+    if (sort === "top" || sort === "discussed") {
+      const field = storedSortFields[sort];
+      const windowMs =
+        sort === "top" ? topWindowMs[options.window ?? "all"] : null;
+
+      const docs = await DiscussDiscussion.find({
+        ...tagFilter,
+        ...(windowMs && { createdAt: { $gte: new Date(now - windowMs) } }),
+        ...scoreCursorFilter(decoded, field),
+      })
+        .sort({ [field]: -1, _id: -1 })
+        .limit(PAGE_SIZE + 1)
+        .populate("userId", "fullName")
+        .lean<PopulatedDiscussion[]>();
+
+      const { page, nextCursor } = paginateByScore(docs, PAGE_SIZE, now, field);
+      return {
+        discussions: page.map((discussion) =>
+          toDiscussionItem(discussion, currentUserId)
+        ),
+        nextCursor,
+      };
+    }
+
+    // Hot scores decay with time, so they are computed per request, but
+    // only over the recent window.
+    const docs = await DiscussDiscussion.aggregate([
+      {
+        $match: {
+          ...tagFilter,
+          createdAt: { $gte: new Date(now - HOT_WINDOW_MS) },
+        },
+      },
+      { $addFields: { sortScore: hotScoreExpression(new Date(now)) } },
+      { $match: scoreCursorFilter(decoded, "sortScore") },
+      { $sort: { sortScore: -1, _id: -1 } },
+      { $limit: PAGE_SIZE + 1 },
+    ]);
+    await DiscussDiscussion.populate(docs, {
+      path: "userId",
+      select: "fullName",
     });
-    return discussionWithUser;
+
+    const { page, nextCursor } = paginateByScore(
+      docs,
+      PAGE_SIZE,
+      now,
+      "sortScore"
+    );
+    return {
+      discussions: page.map((discussion) =>
+        toDiscussionItem(discussion, currentUserId)
+      ),
+      nextCursor,
+    };
   } catch (err) {
     if (err instanceof Error) {
       console.log(err.message);
     } else {
       console.log("An unexpected error occurred", err);
     }
-    return [];
+    return { discussions: [], nextCursor: null };
   }
 }
 
@@ -61,23 +224,62 @@ export async function getDiscussionById(id: string) {
     userId: discussion.userId.toString(),
     title: discussion.title,
     description: discussion.description,
+    descriptionHtml: await renderMarkdown(discussion.description),
+    tags: discussion.tags ?? [],
+    commentCount: discussion.commentCount ?? 0,
+    viewCount: discussion.viewCount ?? 0,
     upVote: discussion.upVote,
+    downVote: discussion.downVote ?? 0,
+    score: discussion.score ?? discussion.upVote,
     createdAt: discussion.createdAt.toISOString(),
+    editedAt: discussion.editedAt?.toISOString() ?? null,
     createdBy: user?.fullName,
-    isLikedByCurrentUser: currentUserId
-      ? discussion.likedBy.includes(currentUserId)
-      : false,
+    currentVote: currentVote(discussion, currentUserId),
+    reactions: summarizeReactions(discussion.reactions, currentUserId),
   };
 }
 
+export async function recordDiscussionView(discussId: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return;
+    }
+
+    await connectDB();
+
+    if (!(await DiscussDiscussion.exists({ _id: discussId }))) {
+      return;
+    }
+
+    // Only the upsert that creates the view row counts it, so repeat and
+    // concurrent visits by the same user add nothing.
+    const result = await DiscussView.updateOne(
+      { discussId, userId },
+      { $setOnInsert: { discussId, userId } },
+      { upsert: true }
+    );
+    if (result.upsertedCount === 1) {
+      await DiscussDiscussion.updateOne(
+        { _id: discussId },
+        { $inc: { viewCount: 1 } }
+      );
+    }
+  } catch (err) {
+    console.error("Error recording view:", err);
+  }
+}
+
 export async function addDiscussion(
   title: string,
   description: string,
-  userId: string
+  tags: string[] = []
 ) {
   const validation = createDiscussionSchema.safeParse({
     title,
     description,
+    tags,
   });
 
   if (!validation.success) {
@@ -91,13 +293,116 @@ export async function addDiscussion(
     return { success: false, error: "Both the feilds are required" };
   }
   try {
+    return await withPostingLimits(
+      "discussion",
+      validation.data.description,
+      async (userId) => {
+        const discussion = await DiscussDiscussion.create({
+          title: validation.data.title,
+          description: validation.data.description,
+          tags: validation.data.tags,
+          userId,
+          upVote: 0,
+        });
+        await updateTagCounts([], validation.data.tags);
+        return {
+          success: true as const,
+          data: {
+            _id: discussion._id.toString(),
+            userId: discussion.userId.toString(),
+            title: discussion.title,
+            description: discussion.description,
+            tags: discussion.tags,
+            upVote: discussion.upVote,
+            createdAt: discussion.createdAt.toISOString(),
+          },
+        };
+      }
+    );
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+    }
+  }
+}
+
+// Moves the current title/description into history before replacing them, so
+// every version of a discussion stays recoverable. No-op when nothing changed.
+function reviseDiscussion(
+  discussion: DiscussionDoc,
+  title: string,
+  description: string,
+  userId: string
+) {
+  if (discussion.title === title && discussion.description === description) {
+    return;
+  }
+
+  discussion.history.push({
+    title: discussion.title,
+    description: discussion.description,
+    editedBy: discussion.editedBy ?? discussion.userId.toString(),
+    createdAt: discussion.editedAt ?? discussion.createdAt,
+  });
+  discussion.title = title;
+  discussion.description = description;
+  discussion.editedAt = new Date();
+  discussion.editedBy = userId;
+}
+
+export async function updateDiscussion(
+  discussId: string,
+  title: string,
+  description: string,
+  tags: string[] = []
+) {
+  const validation = createDiscussionSchema.safeParse({
+    title,
+    description,
+    tags,
+  });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
     await connectDB();
-    const discussion = await DiscussDiscussion.create({
-      title: validation.data.title,
-      description: validation.data.description,
-      userId,
-      upVote: 0,
-    });
+
+    const discussion =
+      await DiscussDiscussion.findById(discussId).select("+history");
+    if (!discussion) {
+      return { success: false, error: "Discussion not found" };
+    }
+    if (discussion.userId.toString() !== userId) {
+      return {
+        success: false,
+        error: "You can only edit your own discussions",
+      };
+    }
+
+    reviseDiscussion(
+      discussion,
+      validation.data.title,
+      validation.data.description,
+      userId
+    );
+    const previousTags = [...(discussion.tags ?? [])];
+    discussion.tags = validation.data.tags;
+    await discussion.save();
+    await updateTagCounts(previousTags, validation.data.tags);
+
     return {
       success: true,
       data: {
@@ -105,6 +410,7 @@ export async function addDiscussion(
         userId: discussion.userId.toString(),
         title: discussion.title,
         description: discussion.description,
+        tags: discussion.tags,
         upVote: discussion.upVote,
         createdAt: discussion.createdAt.toISOString(),
       },
@@ -114,87 +420,274 @@ export async function addDiscussion(
       return { success: false, error: err.message };
     } else {
       console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
     }
   }
 }
 
-export async function getMyDiscussions(userId: string) {
+export async function deleteDiscussion(discussId: string) {
   try {
-    await connectDB();
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
 
-    const discussions = await DiscussDiscussion.find({ userId })
-      .populate("userId", "fullName")
-      .sort({
-        createdAt: -1,
-      });
+    await connectDB();
 
-    const discussionsWithUser = discussions.map((discussion) => {
+    const discussion = await DiscussDiscussion.findById(discussId);
+    if (!discussion) {
+      return { success: false, error: "Discussion not found" };
+    }
+    if (discussion.userId.toString() !== userId) {
       return {
-        _id: discussion._id.toString(),
-        userId: discussion.userId.toString(),
+        success: false,
+        error: "You can only delete your own discussions",
+      };
+    }
+
+    await DiscussComment.deleteMany({ discussId });
+    await DiscussView.deleteMany({ discussId });
+    await discussion.deleteOne();
+    await updateTagCounts(discussion.tags ?? [], []);
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export type DiscussionRevisionItem = {
+  title: string;
+  description: string;
+  editedBy: string;
+  createdAt: string;
+};
+
+// Returns every version of a discussion oldest first, ending with the current
+// one, so index 0 is always the original post.
+export async function getDiscussionHistory(discussId: string) {
+  try {
+    await connectDB();
+    const session = await auth();
+
+    const discussion = await DiscussDiscussion.findById(discussId)
+      .select("+history")
+      .lean();
+    if (!discussion) {
+      return null;
+    }
+
+    const versions: DiscussionRevision[] = [
+      ...discussion.history,
+      {
         title: discussion.title,
         description: discussion.description,
-        upVote: discussion.upVote,
-        createdAt: discussion.createdAt.toISOString(),
-        createdBy: discussion.userId?.fullName || "Unknown User",
-        isLikedByCurrentUser: discussion.likedBy.includes(userId),
+        editedBy: discussion.editedBy ?? discussion.userId.toString(),
+        createdAt: discussion.editedAt ?? discussion.createdAt,
+      },
+    ];
+
+    const editors = await DiscussUser.find(
+      { _id: { $in: [...new Set(versions.map((v) => v.editedBy))] } },
+      "fullName"
+    ).lean();
+    const names = new Map<string, string>(
+      editors.map((user: { _id: Types.ObjectId; fullName: string }) => [
+        user._id.toString(),
+        user.fullName,
+      ])
+    );
+
+    return {
+      _id: discussion._id.toString(),
+      title: discussion.title as string,
+      isOwner: session?.user?.id === discussion.userId.toString(),
+      revisions: versions.map((version): DiscussionRevisionItem => ({
+        title: version.title,
+        description: version.description,
+        editedBy: names.get(version.editedBy) || "Unknown User",
+        createdAt: version.createdAt.toISOString(),
+      })),
+    };
+  } catch (err) {
+    console.error("Error fetching discussion history:", err);
+    return null;
+  }
+}
+
+// Reverting records a new revision rather than rewriting history, so the
+// trail stays complete.
+export async function revertDiscussion(
+  discussId: string,
+  revisionIndex: number
+) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const discussion =
+      await DiscussDiscussion.findById(discussId).select("+history");
+    if (!discussion) {
+      return { success: false, error: "Discussion not found" };
+    }
+    if (discussion.userId.toString() !== userId) {
+      return {
+        success: false,
+        error: "You can only revert your own discussions",
       };
-    });
+    }
+
+    const revision: DiscussionRevision | undefined =
+      discussion.history[revisionIndex];
+    if (!Number.isInteger(revisionIndex) || !revision) {
+      return { success: false, error: "Revision not found" };
+    }
+
+    reviseDiscussion(discussion, revision.title, revision.description, userId);
+    await discussion.save();
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export async function getMyDiscussions(userId: string, cursor?: string) {
+  try {
+    await connectDB();
+
+    const docs = await DiscussDiscussion.find({
+      userId,
+      ...cursorFilter(cursor, -1),
+    })
+      .populate("userId", "fullName")
+      .sort({
+        createdAt: -1,
+        _id: -1,
+      })
+      .limit(PAGE_SIZE + 1);
 
-    return discussionsWithUser;
+    const { page, nextCursor } = paginate(docs, PAGE_SIZE);
+
+    return {
+      discussions: page.map((discussion) =>
+        toDiscussionItem(discussion, userId)
+      ),
+      nextCursor,
+    };
   } catch (err) {
     if (err instanceof Error) {
       console.log(err.message);
     } else {
       console.log("An unexpected error occurred", err);
     }
-    return [];
+    return { discussions: [], nextCursor: null };
   }
 }
 
-export async function toggleLike(discussId: string) {
+export async function getUserDiscussions(userId: string, cursor?: string) {
   try {
-    const session = await auth();
     await connectDB();
+    const session = await auth();
 
-    const discussion = await DiscussDiscussion.findById(discussId);
+    const docs = await DiscussDiscussion.find({
+      userId,
+      ...cursorFilter(cursor, -1),
+    })
+      .populate("userId", "fullName")
+      .sort({
+        createdAt: -1,
+        _id: -1,
+      })
+      .limit(PAGE_SIZE + 1);
 
-    const userId = session?.user?.id;
-    const hasLiked = discussion.likedBy.includes(userId);
-
-    let updatedDiscussion;
-    if (hasLiked) {
-      updatedDiscussion = await DiscussDiscussion.findByIdAndUpdate(
-        discussId,
-        {
-          $pull: { likedBy: userId },
-          $inc: { upVote: -1 },
-        },
-        { new: true }
-      );
+    const { page, nextCursor } = paginate(docs, PAGE_SIZE);
+
+    return {
+      discussions: page.map((discussion) =>
+        toDiscussionItem(discussion, session?.user?.id)
+      ),
+      nextCursor,
+    };
+  } catch (err) {
+    if (err instanceof Error) {
+      console.log(err.message);
     } else {
-      updatedDiscussion = await DiscussDiscussion.findByIdAndUpdate(
-        discussId,
-        {
-          $push: { likedBy: userId },
-          $inc: { upVote: 1 },
-        },
-        { new: true }
-      );
+      console.log("An unexpected error occurred", err);
+    }
+    return { discussions: [], nextCursor: null };
+  }
+}
+
+export async function countMyDiscussions(userId: string) {
+  try {
+    await connectDB();
+    return await DiscussDiscussion.countDocuments({ userId });
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return 0;
+  }
+}
+
+export async function voteDiscussion(
+  discussId: string,
+  direction: "up" | "down"
+): Promise<VoteResult> {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+    if (direction !== "up" && direction !== "down") {
+      return { success: false, error: "Invalid vote" };
+    }
+
+    await connectDB();
+
+    const updated = await DiscussDiscussion.findOneAndUpdate(
+      { _id: discussId, userId: { $ne: new Types.ObjectId(userId) } },
+      votePipeline(userId, direction),
+      { new: true, updatePipeline: true }
+    );
+    if (!updated) {
+      const exists = await DiscussDiscussion.exists({ _id: discussId });
+      return {
+        success: false,
+        error: exists
+          ? "You can't vote on your own post"
+          : "Discussion not found",
+      };
     }
 
     return {
       success: true,
-      upVote: updatedDiscussion?.upVote || 0,
-      likedBy: !hasLiked,
+      upVote: updated.upVote,
+      downVote: updated.downVote,
+      score: updated.score,
+      vote: currentVote(updated, userId),
     };
   } catch (err) {
-    console.error("Error in toggleLike:", err);
+    console.error("Error in voteDiscussion:", err);
     return {
       success: false,
       error: err instanceof Error ? err.message : "Unknown error",
-      upVote: 0,
-      likedBy: false,
     };
   }
 }
@@ -0,0 +1,32 @@
+"use server";
+
+import { auth } from "../lib/auth";
+import { renderMarkdown } from "../lib/markdown";
+import { previewMarkdownSchema } from "../lib/validations";
+
+export async function previewMarkdown(source: string) {
+  const validation = previewMarkdownSchema.safeParse({ source });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      html: "",
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, html: "", error: "You must be logged in" };
+    }
+
+    return {
+      success: true,
+      html: await renderMarkdown(validation.data.source),
+    };
+  } catch (err) {
+    console.error("Error rendering preview:", err);
+    return { success: false, html: "", error: "Couldn't render the preview" };
+  }
+}
@@ -0,0 +1,118 @@
+"use server";
+
+import { z } from "zod";
+import { auth } from "../lib/auth";
+import { toggleMembershipPipeline } from "../lib/votes";
+import connectDB from "../lib/mongodb";
+import {
+  reactionKeys,
+  reactionPalette,
+  Reactions,
+  summarizeReactions,
+} from "../lib/reactions";
+import DiscussComment from "../model/DiscussComment";
+import DiscussDiscussion from "../model/DiscussDiscussion";
+import DiscussUser from "../model/DiscussUser";
+
+const reactionTargetSchema = z.object({
+  target: z.enum(["discussion", "comment"]),
+  targetId: z.string().min(1),
+});
+
+const toggleReactionSchema = reactionTargetSchema.extend({
+  key: z.enum(reactionKeys),
+});
+
+export type ReactionTarget = z.infer<typeof reactionTargetSchema>["target"];
+
+function reactionModel(target: ReactionTarget) {
+  return target === "discussion" ? DiscussDiscussion : DiscussComment;
+}
+
+export async function toggleReaction(
+  target: ReactionTarget,
+  targetId: string,
+  key: string
+) {
+  const validation = toggleReactionSchema.safeParse({ target, targetId, key });
+  if (!validation.success) {
+    return { success: false, error: "Unknown reaction" };
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const path = `reactions.${validation.data.key}`;
+    const updated = await reactionModel(target)
+      .findByIdAndUpdate(
+        targetId,
+        toggleMembershipPipeline(`${path}.users`, `${path}.count`, userId),
+        { new: true, updatePipeline: true }
+      )
+      .select("reactions")
+      .lean();
+    if (!updated) {
+      return { success: false, error: "Not found" };
+    }
+
+    return {
+      success: true,
+      reactions: summarizeReactions(updated.reactions, userId),
+    };
+  } catch (err) {
+    console.error("Error in toggleReaction:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+}
+
+export async function getReactionUsers(
+  target: ReactionTarget,
+  targetId: string
+) {
+  const validation = reactionTargetSchema.safeParse({ target, targetId });
+  if (!validation.success) {
+    return [];
+  }
+
+  try {
+    await connectDB();
+
+    const doc = await reactionModel(target)
+      .findById(targetId)
+      .select("reactions")
+      .lean();
+    const reactions: Reactions = doc?.reactions ?? {};
+
+    const userIds = [
+      ...new Set(reactionKeys.flatMap((key) => reactions[key]?.users ?? [])),
+    ];
+    const users = await DiscussUser.find({ _id: { $in: userIds } })
+      .select("fullName")
+      .lean();
+    const nameById = new Map(
+      users.map((user) => [user._id.toString(), user.fullName as string])
+    );
+
+    return reactionPalette
+      .filter((reaction) => (reactions[reaction.key]?.count ?? 0) > 0)
+      .map((reaction) => ({
+        key: reaction.key,
+        emoji: reaction.emoji,
+        users: (reactions[reaction.key]?.users ?? []).map(
+          (id) => nameById.get(id) ?? "Unknown User"
+        ),
+      }));
+  } catch (err) {
+    console.error("Error fetching reactions:", err);
+    return [];
+  }
+}
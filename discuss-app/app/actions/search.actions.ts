@@ -0,0 +1,137 @@
+"use server";
+
+import { markdownExcerpt } from "../lib/markdown";
+import connectDB from "../lib/mongodb";
+import {
+  buildSnippet,
+  escapeRegex,
+  searchTerms,
+  SnippetPart,
+} from "../lib/search";
+import { SearchInput, searchSchema } from "../lib/validations";
+import DiscussComment from "../model/DiscussComment";
+import DiscussDiscussion from "../model/DiscussDiscussion";
+import DiscussUser from "../model/DiscussUser";
+
+export type SearchResult = {
+  type: "discussion" | "comment";
+  _id: string;
+  discussId: string;
+  title: string;
+  snippet: SnippetPart[];
+  createdBy: string;
+  createdAt: string;
+  score: number;
+};
+
+const RESULT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function searchDiscussions(input: SearchInput) {
+  const validation = searchSchema.safeParse(input);
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+      results: [] as SearchResult[],
+    };
+  }
+
+  const { q, author, tag, from, to } = validation.data;
+
+  try {
+    await connectDB();
+
+    const filter: Record<string, unknown> = {};
+    if (author) {
+      const authors = await DiscussUser.find({
+        fullName: { $regex: escapeRegex(author), $options: "i" },
+      }).select("_id");
+      filter.userId = { $in: authors.map((user) => user._id) };
+    }
+    if (from || to) {
+      filter.createdAt = {
+        ...(from && { $gte: from }),
+        // `to` is a whole day, so stop just before the next one starts.
+        ...(to && { $lt: new Date(to.getTime() + DAY_MS) }),
+      };
+    }
+
+    const discussions = await DiscussDiscussion.find(
+      { $text: { $search: q }, ...filter, ...(tag && { tags: tag }) },
+      { score: { $meta: "textScore" } }
+    )
+      .populate("userId", "fullName")
+      .sort({ score: { $meta: "textScore" } })
+      .limit(RESULT_LIMIT)
+      .lean();
+
+    const comments = await DiscussComment.find(
+      { $text: { $search: q }, ...filter },
+      { score: { $meta: "textScore" } }
+    )
+      .populate("userId", "fullName")
+      .sort({ score: { $meta: "textScore" } })
+      .limit(RESULT_LIMIT)
+      .lean();
+
+    const parents = await DiscussDiscussion.find({
+      _id: { $in: comments.map((comment) => comment.discussId) },
+      ...(tag && { tags: tag }),
+    })
+      .select("title")
+      .lean();
+    const titleById = new Map(
+      parents.map((parent) => [parent._id.toString(), parent.title as string])
+    );
+
+    const terms = searchTerms(q);
+
+    const results: SearchResult[] = [
+      ...discussions.map((discussion) => ({
+        type: "discussion" as const,
+        _id: discussion._id.toString(),
+        discussId: discussion._id.toString(),
+        title: discussion.title,
+        snippet: buildSnippet(
+          markdownExcerpt(discussion.description, Infinity),
+          terms
+        ),
+        createdBy: discussion.userId?.fullName || "Unknown User",
+        createdAt: discussion.createdAt.toISOString(),
+        score: discussion.score,
+      })),
+      ...comments
+        .filter((comment) => titleById.has(comment.discussId))
+        .map((comment) => ({
+          type: "comment" as const,
+          _id: comment._id.toString(),
+          discussId: comment.discussId,
+          title: titleById.get(comment.discussId) ?? "",
+          snippet: buildSnippet(
+            markdownExcerpt(comment.description, Infinity),
+            terms
+          ),
+          createdBy: comment.userId?.fullName || "Unknown User",
+          createdAt: comment.createdAt.toISOString(),
+          score: comment.score,
+        })),
+    ];
+
+    results.sort((a, b) => b.score - a.score);
+
+    return { success: true, results: results.slice(0, RESULT_LIMIT) };
+  } catch (err) {
+    if (err instanceof Error) {
+      console.log(err.message);
+    } else {
+      console.log("An unexpected error occurred", err);
+    }
+    return {
+      success: false,
+      error: "Search failed, please try again",
+      results: [] as SearchResult[],
+    };
+  }
+}
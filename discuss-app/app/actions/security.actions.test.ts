@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auth } from "../lib/auth";
+import {
+  isTwoFactorBlocked,
+  recordTwoFactorFailure,
+} from "../lib/loginThrottle";
+import { memoryRateLimitStore, setRateLimitStore } from "../lib/rateLimit";
+import DiscussUser from "../model/DiscussUser";
+import { disableTwoFactor, regenerateRecoveryCodes } from "./security.actions";
+
+vi.mock("../lib/auth", () => ({ auth: vi.fn(), unstable_update: vi.fn() }));
+vi.mock("../lib/mongodb", () => ({ default: vi.fn() }));
+vi.mock("../lib/sessions", () => ({ revokeAllSessions: vi.fn() }));
+vi.mock("../lib/siteSettings", () => ({
+  getSiteSettings: async () => ({ requireTwoFactor: false }),
+  updateSiteSettings: vi.fn(),
+}));
+vi.mock("../model/DiscussSession", () => ({ default: {} }));
+vi.mock("../model/DiscussUser", () => ({
+  default: {
+    // A user with two-factor on whose codes never match.
+    findById: vi.fn(() => ({
+      select: async () => ({
+        twoFactorEnabled: true,
+        twoFactorSecret: "JBSWY3DPEHPK3PXP",
+        twoFactorLastUsedStep: null,
+      }),
+    })),
+    updateOne: vi.fn(async () => ({ modifiedCount: 0 })),
+  },
+}));
+
+const USER_ID = "user-1";
+
+async function blockUser() {
+  while (!(await isTwoFactorBlocked(USER_ID))) {
+    await recordTwoFactorFailure(USER_ID);
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setRateLimitStore(memoryRateLimitStore());
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: USER_ID },
+    expires: "",
+  } as never);
+});
+
+describe("two-factor settings throttle", () => {
+  it("counts wrong codes against the user", async () => {
+    expect(await disableTwoFactor("000000")).toEqual({
+      success: false,
+      error: "That code is not valid",
+    });
+    expect(await regenerateRecoveryCodes("abcde-12345")).toEqual({
+      success: false,
+      error: "That code is not valid",
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await disableTwoFactor("000000");
+    }
+    expect(await isTwoFactorBlocked(USER_ID)).toBe(true);
+  });
+
+  it("won't let a blocked user turn two-factor off", async () => {
+    await blockUser();
+
+    const result = await disableTwoFactor("000000");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Too many attempts/);
+    expect(DiscussUser.findById).not.toHaveBeenCalled();
+    expect(DiscussUser.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("won't mint recovery codes for a blocked user", async () => {
+    await blockUser();
+
+    const result = await regenerateRecoveryCodes("abcde-12345");
+
+    expect(result.success).toBe(false);
+    expect(DiscussUser.findById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,370 @@
+"use server";
+
+import mongoose from "mongoose";
+import QRCode from "qrcode";
+import { auth, unstable_update } from "../lib/auth";
+import connectDB from "../lib/mongodb";
+import {
+  clearTwoFactorFailures,
+  isTwoFactorBlocked,
+  recordTwoFactorFailure,
+} from "../lib/loginThrottle";
+import { revokeAllSessions } from "../lib/sessions";
+import { getSiteSettings, updateSiteSettings } from "../lib/siteSettings";
+import {
+  createTwoFactorSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  signTwoFactorProof,
+  verifyTotp,
+} from "../lib/twoFactor";
+import DiscussSession from "../model/DiscussSession";
+import DiscussUser from "../model/DiscussUser";
+
+const twoFactorFields =
+  "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep";
+
+// Accepts either a current authenticator code or an unused recovery code.
+// Both are single-use: the TOTP step is recorded and recovery codes are
+// pulled in the same update that matches them.
+async function checkSecondFactor(userId: string, code: string) {
+  const user = await DiscussUser.findById(userId).select(twoFactorFields);
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const lastUsedStep: number | null = user.twoFactorLastUsedStep ?? null;
+  const step = verifyTotp(user.twoFactorSecret, code, lastUsedStep);
+  if (step !== null) {
+    const result = await DiscussUser.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  const hash = hashRecoveryCode(code);
+  const result = await DiscussUser.updateOne(
+    { _id: userId, twoFactorRecoveryCodes: hash },
+    { $pull: { twoFactorRecoveryCodes: hash } }
+  );
+  return result.modifiedCount === 1;
+}
+
+// Every code check counts against the same per-user throttle, so a stolen
+// session can't guess its way through the settings actions either. Returns
+// an error message, or null once the code checks out.
+async function throttledSecondFactor(userId: string, code: string) {
+  if (await isTwoFactorBlocked(userId)) {
+    return "Too many attempts. Please wait a few minutes and try again.";
+  }
+
+  await connectDB();
+
+  if (!(await checkSecondFactor(userId, code))) {
+    await recordTwoFactorFailure(userId);
+    return "That code is not valid";
+  }
+  await clearTwoFactorFailures(userId);
+  return null;
+}
+
+export async function completeTwoFactorLogin(code: string) {
+  try {
+    const session = await auth();
+    const pending = session?.twoFactor;
+    if (!pending) {
+      return { success: false, error: "Your sign-in has expired" };
+    }
+
+    const error = await throttledSecondFactor(pending.userId, code);
+    if (error) {
+      return { success: false, error };
+    }
+
+    await unstable_update({
+      twoFactorProof: signTwoFactorProof(pending.userId, pending.nonce),
+    });
+    return { success: true };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Setting up two-factor is the one thing a session can do while the site
+// requires it and the user doesn't have it yet.
+async function setupUserId() {
+  const session = await auth();
+  return session?.user?.id ?? session?.twoFactorSetup?.userId;
+}
+
+export async function getTwoFactorStatus() {
+  const userId = await setupUserId();
+  if (!userId) {
+    return null;
+  }
+
+  await connectDB();
+  const user = await DiscussUser.findById(userId).select(
+    "+twoFactorRecoveryCodes"
+  );
+  const { requireTwoFactor } = await getSiteSettings();
+
+  return {
+    enabled: Boolean(user?.twoFactorEnabled),
+    recoveryCodesLeft: user?.twoFactorRecoveryCodes?.length ?? 0,
+    required: requireTwoFactor,
+  };
+}
+
+export async function beginTwoFactorSetup() {
+  try {
+    const userId = await setupUserId();
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const user = await DiscussUser.findById(userId);
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+    if (user.twoFactorEnabled) {
+      return {
+        success: false,
+        error: "Two-factor authentication is already on",
+      };
+    }
+
+    const { secret, uri } = createTwoFactorSecret(user.email);
+    await DiscussUser.updateOne(
+      { _id: userId },
+      { $set: { twoFactorPendingSecret: secret } }
+    );
+
+    return {
+      success: true,
+      secret,
+      qrCode: await QRCode.toDataURL(uri),
+    };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function enableTwoFactor(code: string) {
+  try {
+    const userId = await setupUserId();
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const user = await DiscussUser.findById(userId).select(
+      "+twoFactorPendingSecret"
+    );
+    if (!user?.twoFactorPendingSecret) {
+      return { success: false, error: "Start the setup again" };
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      return { success: false, error: "That code is not valid" };
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await DiscussUser.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorPendingSecret: null,
+          twoFactorRecoveryCodes: hashes,
+          twoFactorLastUsedStep: step,
+        },
+      }
+    );
+    await unstable_update({});
+
+    return { success: true, recoveryCodes: codes };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function disableTwoFactor(code: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    const { requireTwoFactor } = await getSiteSettings();
+    if (requireTwoFactor) {
+      return {
+        success: false,
+        error: "Two-factor authentication is required on this site",
+      };
+    }
+
+    const error = await throttledSecondFactor(userId, code);
+    if (error) {
+      return { success: false, error };
+    }
+
+    await DiscussUser.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorLastUsedStep: null,
+        },
+      }
+    );
+
+    return { success: true };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function regenerateRecoveryCodes(code: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    const error = await throttledSecondFactor(userId, code);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await DiscussUser.updateOne(
+      { _id: userId },
+      { $set: { twoFactorRecoveryCodes: hashes } }
+    );
+
+    return { success: true, recoveryCodes: codes };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+async function isAdmin(userId: string | undefined) {
+  if (!userId) {
+    return false;
+  }
+  await connectDB();
+  const user = await DiscussUser.findById(userId, "role");
+  return user?.role === "admin";
+}
+
+export async function setRequireTwoFactor(required: boolean) {
+  try {
+    const session = await auth();
+    if (!(await isAdmin(session?.user?.id))) {
+      return { success: false, error: "Only admins can change this policy" };
+    }
+
+    await updateSiteSettings({ requireTwoFactor: Boolean(required) });
+
+    return { success: true };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export type ActiveSession = {
+  _id: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  lastSeenAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+};
+
+export async function getActiveSessions() {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return null;
+  }
+
+  await connectDB();
+  const records = await DiscussSession.find({ userId })
+    .sort({ lastSeenAt: -1 })
+    .lean();
+
+  return records.map((record): ActiveSession => ({
+    _id: record._id.toString(),
+    device: record.device,
+    userAgent: record.userAgent,
+    ip: record.ip,
+    lastSeenAt: record.lastSeenAt.toISOString(),
+    createdAt: record.createdAt.toISOString(),
+    isCurrent: record.sessionId === session.sessionId,
+  }));
+}
+
+export async function revokeSession(id: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "Not authenticated" };
+    }
+    if (!mongoose.isValidObjectId(id)) {
+      return { success: false, error: "Session not found" };
+    }
+
+    await connectDB();
+    const result = await DiscussSession.deleteOne({ _id: id, userId });
+    if (result.deletedCount === 0) {
+      return { success: false, error: "Session not found" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function signOutEverywhere() {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    await revokeAllSessions(userId);
+
+    return { success: true };
+  } catch (err) {
+    console.log("An unexpected error occurred", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,94 @@
+import bcrypt from "bcryptjs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auth } from "../lib/auth";
+import { isLoginBlocked, recordLoginFailure } from "../lib/loginThrottle";
+import { sendMail } from "../lib/mailer";
+import { memoryRateLimitStore, setRateLimitStore } from "../lib/rateLimit";
+import DiscussUser from "../model/DiscussUser";
+import { changePassword, requestEmailChange } from "./settings.actions";
+
+vi.mock("next/headers", () => ({ cookies: vi.fn() }));
+vi.mock("../lib/auth", () => ({ auth: vi.fn(), unstable_update: vi.fn() }));
+vi.mock("../lib/images", () => ({}));
+vi.mock("../lib/storage", () => ({}));
+vi.mock("../lib/mongodb", () => ({ default: vi.fn() }));
+vi.mock("../lib/request", () => ({
+  getRequestInfo: async () => ({ userAgent: "", ip: "" }),
+}));
+vi.mock("../lib/sessions", () => ({ revokeOtherSessions: vi.fn() }));
+vi.mock("../lib/mailer", () => ({
+  absoluteUrl: (path: string) => `http://localhost${path}`,
+  sendMail: vi.fn(),
+}));
+vi.mock("../model/DiscussAccount", () => ({ default: {} }));
+vi.mock("../model/DiscussUser", () => ({
+  default: { findById: vi.fn(), exists: vi.fn(), updateOne: vi.fn() },
+}));
+
+const EMAIL = "owner@example.com";
+const PASSWORD = "Correct-horse1";
+const passwordHash = bcrypt.hashSync(PASSWORD, 4);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setRateLimitStore(memoryRateLimitStore());
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: "user-1" },
+    sessionId: "current",
+    expires: "",
+  } as never);
+  vi.mocked(DiscussUser.findById).mockResolvedValue({
+    email: EMAIL,
+    password: passwordHash,
+    save: vi.fn(),
+  });
+  vi.mocked(DiscussUser.exists).mockResolvedValue(null);
+});
+
+describe("changePassword", () => {
+  it("counts a wrong current password against the sign-in throttle", async () => {
+    for (let i = 0; i < 4; i++) {
+      expect(await changePassword("wrong", "New-password1")).toEqual({
+        success: false,
+        error: "Current password is incorrect",
+      });
+    }
+    expect(await isLoginBlocked(EMAIL, "")).toBe(true);
+  });
+
+  it("refuses even the right password while sign-in is blocked", async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordLoginFailure(EMAIL, "");
+    }
+
+    const result = await changePassword(PASSWORD, "New-password1");
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Too many attempts/);
+  });
+});
+
+describe("requestEmailChange", () => {
+  it("requires the current password", async () => {
+    const result = await requestEmailChange("new@example.com", "wrong");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Current password is incorrect",
+    });
+    expect(DiscussUser.updateOne).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it("mails the new address and warns the old one", async () => {
+    expect(await requestEmailChange("new@example.com", PASSWORD)).toEqual({
+      success: true,
+    });
+
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "new@example.com" })
+    );
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: EMAIL })
+    );
+  });
+});
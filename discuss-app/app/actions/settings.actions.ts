@@ -0,0 +1,460 @@
+"use server";
+
+import bcrypt from "bcryptjs";
+import { randomUUID } from "crypto";
+import { cookies } from "next/headers";
+import { LINK_INTENT_COOKIE, oauthProviders } from "../lib/oauth";
+import { auth, unstable_update } from "../lib/auth";
+import { avatarSizes } from "../lib/avatar";
+import {
+  AVATAR_MAX_BYTES,
+  avatarContentTypes,
+  resizeAvatar,
+} from "../lib/images";
+import {
+  clearLoginFailures,
+  isLoginBlocked,
+  recordLoginFailure,
+} from "../lib/loginThrottle";
+import { absoluteUrl, sendMail } from "../lib/mailer";
+import connectDB from "../lib/mongodb";
+import { getRequestInfo } from "../lib/request";
+import { revokeOtherSessions } from "../lib/sessions";
+import { getStorage } from "../lib/storage";
+import { createToken, hashToken } from "../lib/tokens";
+import {
+  changeEmailSchema,
+  changePasswordSchema,
+  profileSchema,
+} from "../lib/validations";
+import DiscussAccount from "../model/DiscussAccount";
+import DiscussUser from "../model/DiscussUser";
+
+const EMAIL_CHANGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Account takeover steps ask for the password again. Misses count against
+// the sign-in throttle, so a stolen session can't be used to guess it.
+// Returns an error message, or null once the password checks out.
+async function checkCurrentPassword(
+  user: { email: string; password: string },
+  password: string
+) {
+  const { ip } = await getRequestInfo();
+  if (await isLoginBlocked(user.email, ip)) {
+    return "Too many attempts. Please wait a few minutes and try again.";
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    await recordLoginFailure(user.email, ip);
+    return "Current password is incorrect";
+  }
+  await clearLoginFailures(user.email);
+  return null;
+}
+
+export async function getAccountSettings() {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return null;
+  }
+
+  await connectDB();
+  const user = await DiscussUser.findById(userId);
+  if (!user) {
+    return null;
+  }
+
+  const accounts = await DiscussAccount.find({ userId }, "provider email");
+
+  return {
+    fullName: user.fullName as string,
+    email: user.email as string,
+    bio: (user.bio as string | undefined) ?? "",
+    image: (user.image as string | null) ?? null,
+    pendingEmail: (user.pendingEmail as string | null) ?? null,
+    hasPassword: Boolean(user.password),
+    linkedAccounts: accounts.map(
+      (account: { provider: string; email: string }) => ({
+        provider: account.provider,
+        email: account.email,
+      })
+    ),
+  };
+}
+
+// Marks the next OAuth sign-in from this browser as "connect to my account";
+// the client starts the provider sign-in right after this returns.
+export async function startAccountLink() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(LINK_INTENT_COOKIE, "1", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 10 * 60,
+  });
+  return { success: true };
+}
+
+export async function unlinkAccount(provider: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+    if (!(provider in oauthProviders)) {
+      return { success: false, error: "Unknown provider" };
+    }
+
+    await connectDB();
+
+    const user = await DiscussUser.findById(userId);
+    const otherAccounts = await DiscussAccount.countDocuments({
+      userId,
+      provider: { $ne: provider },
+    });
+    if (!user?.password && otherAccounts === 0) {
+      return {
+        success: false,
+        error: "Set a password before disconnecting your only sign-in method",
+      };
+    }
+
+    await DiscussAccount.deleteOne({ userId, provider });
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export async function updateProfile(fullName: string, bio: string) {
+  const validation = profileSchema.safeParse({ fullName, bio });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+    await DiscussUser.updateOne(
+      { _id: userId },
+      { $set: { fullName: validation.data.fullName, bio: validation.data.bio } }
+    );
+    await unstable_update({});
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+async function deleteAvatarFiles(avatarKey: string | null) {
+  if (!avatarKey) {
+    return;
+  }
+  const storage = getStorage();
+  await Promise.all(
+    avatarSizes.map((size) => storage.delete(`${avatarKey}-${size}.webp`))
+  );
+}
+
+export async function uploadAvatar(formData: FormData) {
+  const file = formData.get("avatar");
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: "Choose an image to upload" };
+  }
+  if (!avatarContentTypes.includes(file.type)) {
+    return { success: false, error: "Avatar must be a JPEG, PNG, WebP or GIF" };
+  }
+  if (file.size > AVATAR_MAX_BYTES) {
+    return { success: false, error: "Avatar must be smaller than 5 MB" };
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    let resized;
+    try {
+      resized = await resizeAvatar(Buffer.from(await file.arrayBuffer()));
+    } catch {
+      return { success: false, error: "That file is not a valid image" };
+    }
+
+    // A fresh key per upload lets the files be cached indefinitely.
+    const avatarKey = `avatars/${userId}/${randomUUID()}`;
+    const storage = getStorage();
+    const urls = await Promise.all(
+      resized.map(({ size, data }) =>
+        storage.put(`${avatarKey}-${size}.webp`, data, "image/webp")
+      )
+    );
+
+    await connectDB();
+    const previous = await DiscussUser.findByIdAndUpdate(
+      userId,
+      { $set: { image: urls[urls.length - 1], avatarKey } },
+      { projection: { avatarKey: 1 } }
+    );
+    await deleteAvatarFiles(previous?.avatarKey ?? null);
+    await unstable_update({});
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export async function removeAvatar() {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+    const previous = await DiscussUser.findByIdAndUpdate(
+      userId,
+      { $set: { image: null, avatarKey: null } },
+      { projection: { avatarKey: 1 } }
+    );
+    await deleteAvatarFiles(previous?.avatarKey ?? null);
+    await unstable_update({});
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+// The new address only replaces the current one once the link mailed to it
+// has been opened, so a typo can't lock the user out. The current address
+// is told about it, in case the request didn't come from its owner.
+export async function requestEmailChange(
+  email: string,
+  currentPassword: string
+) {
+  const validation = changeEmailSchema.safeParse({ email, currentPassword });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const user = await DiscussUser.findById(userId);
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    // Accounts created without a password have nothing to re-enter.
+    if (user.password) {
+      const error = await checkCurrentPassword(
+        user,
+        validation.data.currentPassword
+      );
+      if (error) {
+        return { success: false, error };
+      }
+    }
+
+    const newEmail = validation.data.email;
+    const taken = await DiscussUser.exists({ email: newEmail });
+    if (taken) {
+      return { success: false, error: "That email is already in use" };
+    }
+
+    const { token, hash } = createToken();
+    await DiscussUser.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          pendingEmail: newEmail,
+          emailChangeToken: hash,
+          emailChangeExpires: new Date(Date.now() + EMAIL_CHANGE_TTL_MS),
+        },
+      }
+    );
+
+    await sendMail({
+      to: newEmail,
+      subject: "Confirm your new email address",
+      text: `Open this link to confirm your new email address:\n\n${absoluteUrl(
+        `/settings/verify-email?token=${token}`
+      )}\n\nThe link expires in 24 hours. If you didn't ask for this, you can ignore this email.`,
+    });
+    await sendMail({
+      to: user.email,
+      subject: "Your email address is being changed",
+      text: `Someone asked to change the email address on your account to ${newEmail}. It changes once the link sent there is opened.\n\nIf this wasn't you, change your password and sign out of your other sessions from your settings:\n\n${absoluteUrl(
+        "/settings"
+      )}`,
+    });
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export async function confirmEmailChange(token: string) {
+  try {
+    await connectDB();
+
+    const user = await DiscussUser.findOne({
+      emailChangeToken: hashToken(token),
+      emailChangeExpires: { $gt: new Date() },
+    });
+    if (!user?.pendingEmail) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    const taken = await DiscussUser.exists({
+      email: user.pendingEmail,
+      _id: { $ne: user._id },
+    });
+    if (taken) {
+      return { success: false, error: "That email is already in use" };
+    }
+
+    await DiscussUser.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          email: user.pendingEmail,
+          emailVerified: new Date(),
+          pendingEmail: null,
+          emailChangeToken: null,
+          emailChangeExpires: null,
+        },
+      }
+    );
+
+    const session = await auth();
+    if (session?.user?.id === user._id.toString()) {
+      await unstable_update({});
+    }
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
+
+export async function changePassword(
+  currentPassword: string,
+  newPassword: string
+) {
+  const validation = changePasswordSchema.safeParse({
+    currentPassword,
+    newPassword,
+  });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0].message,
+    };
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    await connectDB();
+
+    const user = await DiscussUser.findById(userId);
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    // Accounts created without a password can set one directly.
+    if (user.password) {
+      const error = await checkCurrentPassword(
+        user,
+        validation.data.currentPassword
+      );
+      if (error) {
+        return { success: false, error };
+      }
+    }
+
+    user.password = await bcrypt.hash(validation.data.newPassword, 12);
+    await user.save();
+
+    // Whoever knew the old password may still be signed in somewhere.
+    await revokeOtherSessions(userId, session.sessionId);
+
+    return { success: true };
+  } catch (err) {
+    if (err instanceof Error) {
+      return { success: false, error: err.message };
+    } else {
+      console.log("An unexpected error occurred", err);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  }
+}
@@ -0,0 +1,56 @@
+"use server";
+
+import connectDB from "../lib/mongodb";
+import { escapeRegex } from "../lib/search";
+import { slugifyTag } from "../lib/validations";
+import DiscussTag from "../model/DiscussTag";
+
+export async function searchTags(query: string) {
+  try {
+    const slug = slugifyTag(query);
+    if (!slug) {
+      return [];
+    }
+
+    await connectDB();
+
+    const tags = await DiscussTag.find({
+      slug: { $regex: `^${escapeRegex(slug)}` },
+    })
+      .sort({ slug: 1 })
+      .limit(8)
+      .lean();
+
+    return tags.map((tag) => tag.slug as string);
+  } catch (err) {
+    if (err instanceof Error) {
+      console.log(err.message);
+    } else {
+      console.log("An unexpected error occurred", err);
+    }
+    return [];
+  }
+}
+
+export async function getPopularTags(limit = 10) {
+  try {
+    await connectDB();
+
+    const tags = await DiscussTag.find({ discussionCount: { $gt: 0 } })
+      .sort({ discussionCount: -1, slug: 1 })
+      .limit(limit)
+      .lean();
+
+    return tags.map((tag) => ({
+      slug: tag.slug as string,
+      count: tag.discussionCount as number,
+    }));
+  } catch (err) {
+    if (err instanceof Error) {
+      console.log(err.message);
+    } else {
+      console.log("An unexpected error occurred", err);
+    }
+    return [];
+  }
+}
@@ -0,0 +1,58 @@
+"use server";
+
+import { isValidObjectId, Types } from "mongoose";
+import connectDB from "../lib/mongodb";
+import DiscussComment from "../model/DiscussComment";
+import DiscussDiscussion from "../model/DiscussDiscussion";
+import DiscussUser from "../model/DiscussUser";
+
+async function sumUpvotes(model: typeof DiscussDiscussion, match: object) {
+  const [total] = await model.aggregate([
+    { $match: match },
+    { $group: { _id: null, upVotes: { $sum: "$upVote" } } },
+  ]);
+  return (total?.upVotes as number | undefined) ?? 0;
+}
+
+export async function getUserProfile(userId: string) {
+  if (!isValidObjectId(userId)) {
+    return null;
+  }
+
+  try {
+    await connectDB();
+
+    const user = await DiscussUser.findById(
+      userId,
+      "fullName bio image createdAt"
+    );
+    if (!user) {
+      return null;
+    }
+
+    const objectId = new Types.ObjectId(userId);
+    const commentMatch = { userId: objectId, isDeleted: { $ne: true } };
+
+    const [discussionCount, commentCount, discussionUpvotes, commentUpvotes] =
+      await Promise.all([
+        DiscussDiscussion.countDocuments({ userId: objectId }),
+        DiscussComment.countDocuments(commentMatch),
+        sumUpvotes(DiscussDiscussion, { userId: objectId }),
+        sumUpvotes(DiscussComment, commentMatch),
+      ]);
+
+    return {
+      _id: user._id.toString(),
+      fullName: user.fullName as string,
+      bio: (user.bio as string | undefined) ?? "",
+      image: (user.image as string | null) ?? null,
+      createdAt: user.createdAt.toISOString() as string,
+      discussionCount,
+      commentCount,
+      upvotesReceived: discussionUpvotes + commentUpvotes,
+    };
+  } catch (err) {
+    console.error("Error fetching user profile:", err);
+    return null;
+  }
+}
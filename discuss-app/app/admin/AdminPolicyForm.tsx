@@ -0,0 +1,69 @@
+"use client";
+
+import { setRequireTwoFactor } from "@/app/actions/security.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function AdminPolicyForm({
+  requireTwoFactor,
+}: {
+  requireTwoFactor: boolean;
+}) {
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+
+  const handleToggle = async () => {
+    setError("");
+    setIsSaving(true);
+
+    try {
+      const result = await setRequireTwoFactor(!requireTwoFactor);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to update policy");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Require two-factor authentication</CardTitle>
+        <CardDescription>
+          Users without two-factor authentication can only use their settings
+          until they set it up, and can&apos;t turn it off while this is on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-3">
+        <span className="text-sm">
+          Currently{" "}
+          <strong>{requireTwoFactor ? "required" : "optional"}</strong>
+        </span>
+        <Button
+          variant={requireTwoFactor ? "outline" : "default"}
+          disabled={isSaving}
+          onClick={handleToggle}
+        >
+          {requireTwoFactor ? "Make optional" : "Require for everyone"}
+        </Button>
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
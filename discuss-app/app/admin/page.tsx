@@ -0,0 +1,22 @@
+import { auth } from "@/app/lib/auth";
+import { getSiteSettings } from "@/app/lib/siteSettings";
+import { Label } from "@/components/ui/label";
+import { redirect } from "next/navigation";
+import AdminPolicyForm from "./AdminPolicyForm";
+
+export default async function AdminPage() {
+  const session = await auth();
+
+  if (session?.user?.role !== "admin") {
+    redirect("/discussion");
+  }
+
+  const settings = await getSiteSettings();
+
+  return (
+    <div className="flex flex-col gap-4 md:w-2/3">
+      <Label className="mb-3 text-3xl">Admin</Label>
+      <AdminPolicyForm requireTwoFactor={settings.requireTwoFactor} />
+    </div>
+  );
+}
@@ -1,7 +1,22 @@
 "use client";
 
-import { toggleCommentLike } from "@/app/actions/comment.actions";
-import { Badge } from "@/components/ui/badge";
+import {
+  deleteComment,
+  editComment,
+  voteComment,
+} from "@/app/actions/comment.actions";
+import { Vote } from "@/app/lib/votes";
+import { createCommentSchema } from "@/app/lib/validations";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,72 +25,236 @@ import {
   CardHeader,
 } from "@/components/ui/card";
 import { formatRelativeTime } from "@/lib/dateUtils";
-import { ThumbsUp } from "lucide-react";
+import { MessageSquareReply, Pencil, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
 import { useState } from "react";
+import DiscussSendComment from "./DiscussSendComment";
+import CommentHistorySheet from "./CommentHistorySheet";
+import MarkdownContent from "../components/MarkdownContent";
+import MarkdownEditor from "../components/MarkdownEditor";
+import ReactionBar from "../components/ReactionBar";
+import VoteButtons from "../components/VoteButtons";
+import AuthorBadge from "../components/AuthorBadge";
+import { ReactionSummary } from "@/app/lib/reactions";
+
+const commentMaxLength =
+  createCommentSchema.shape.description.maxLength ?? undefined;
 
-type discussCommentType = {
+export type discussCommentType = {
   _id: string;
   userId: string;
   discussId: string;
+  parentId: string | null;
   description: string;
+  descriptionHtml: string;
   upVote: number;
+  downVote: number;
+  score: number;
   createdAt: string;
   createdBy: string;
-  isLikedByCurrentUser: boolean;
+  currentVote: Vote;
+  isOwner: boolean;
+  isDeleted: boolean;
+  editedAt: string | null;
+  reactions: ReactionSummary[];
 };
 
 export default function CommentCard({
   comment,
+  currentUserId,
 }: {
   comment: discussCommentType;
+  currentUserId?: string;
 }) {
-  const [isLiked, setIsLiked] = useState(comment.isLikedByCurrentUser);
-  const [upVote, setUpVote] = useState(comment.upVote);
-  const [loading, setLoading] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.description);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const router = useRouter();
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
 
-  const handleLike = async () => {
-    const previousIsLiked = isLiked;
-    const previousUpVote = upVote;
+    try {
+      const result = await editComment(comment._id, draft);
+      if (result.success) {
+        setIsEditing(false);
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to edit comment");
+      }
+    } catch (err) {
+      setError("An error occurred while editing comment");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-    setIsLiked(!isLiked);
-    setUpVote(isLiked ? upVote - 1 : upVote + 1);
-    setLoading(true);
+  const handleConfirmDelete = async () => {
+    setIsSaving(true);
+    setError("");
 
     try {
-      const result = await toggleCommentLike(comment._id);
+      const result = await deleteComment(comment._id);
       if (result.success) {
-        setIsLiked(result.likedBy);
-        setUpVote(result.upVote);
+        setShowDeleteDialog(false);
+        router.refresh();
       } else {
-        setIsLiked(previousIsLiked);
-        setUpVote(previousUpVote);
+        setError(result.error || "Failed to delete comment");
       }
+    } catch (err) {
+      setError("An error occurred while deleting comment");
+      console.error(err);
     } finally {
-      setLoading(false);
+      setIsSaving(false);
     }
   };
+
+  if (comment.isDeleted) {
+    return (
+      <Card key={comment._id} className="m-2">
+        <CardHeader>
+          <CardDescription className="italic">[deleted]</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
   return (
     <Card key={comment._id} className="m-2">
       <CardHeader>
-        <Badge className="text-sm">{comment.createdBy}</Badge>
-        <CardDescription>{comment.description}</CardDescription>
+        <div className="flex items-center gap-2">
+          <AuthorBadge
+            userId={comment.userId}
+            name={comment.createdBy}
+            className="text-sm"
+          />
+          {comment.editedAt && (
+            <CommentHistorySheet
+              commentId={comment._id}
+              editedAt={comment.editedAt}
+            />
+          )}
+        </div>
+        {isEditing ? (
+          <div className="flex flex-col gap-2">
+            <MarkdownEditor
+              value={draft}
+              onChange={setDraft}
+              maxLength={commentMaxLength}
+              disabled={isSaving}
+              rows={3}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setIsEditing(false);
+                  setDraft(comment.description);
+                  setError("");
+                }}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <MarkdownContent html={comment.descriptionHtml} />
+        )}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <ReactionBar
+          target="comment"
+          targetId={comment._id}
+          reactions={comment.reactions}
+        />
       </CardHeader>
       <CardFooter className="flex justify-between items-center">
         <div className="flex items-center gap-2">
-          <Button
-            size="sm"
-            variant={isLiked ? "default" : "outline"}
-            onClick={handleLike}
-            disabled={loading}
-          >
-            <ThumbsUp className="h-4 w-4 mr-1" />
-            {upVote}
-          </Button>
+          <VoteButtons
+            score={comment.score}
+            vote={comment.currentVote}
+            onVote={(direction) => voteComment(comment._id, direction)}
+            isOwnPost={comment.isOwner}
+          />
+          {currentUserId && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsReplying(!isReplying)}
+            >
+              <MessageSquareReply className="h-4 w-4 mr-1" />
+              Reply
+            </Button>
+          )}
+          {comment.isOwner && !isEditing && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setIsEditing(true)}
+              >
+                <Pencil />
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowDeleteDialog(true)}
+              >
+                <Trash2 />
+                Delete
+              </Button>
+            </>
+          )}
         </div>
         <CardDescription suppressHydrationWarning>
           {formatRelativeTime(comment.createdAt)}
         </CardDescription>
       </CardFooter>
+      {isReplying && (
+        <div className="px-6 pb-2">
+          <DiscussSendComment
+            discussId={comment.discussId}
+            userId={currentUserId}
+            parentId={comment._id}
+            onSuccess={() => setIsReplying(false)}
+          />
+        </div>
+      )}
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              If the comment has replies it will be shown as [deleted] so the
+              conversation stays readable.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmDelete();
+              }}
+              disabled={isSaving}
+            >
+              {isSaving ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
@@ -0,0 +1,83 @@
+"use client";
+
+import { getCommentHistory } from "@/app/actions/comment.actions";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { formatRelativeTime } from "@/lib/dateUtils";
+import { useState } from "react";
+import DiffView from "../components/DiffView";
+
+type Revision = Awaited<ReturnType<typeof getCommentHistory>>[number];
+
+interface CommentHistorySheetProps {
+  commentId: string;
+  editedAt: string;
+}
+
+export default function CommentHistorySheet({
+  commentId,
+  editedAt,
+}: CommentHistorySheetProps) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (open) {
+      setRevisions(await getCommentHistory(commentId));
+    }
+  };
+
+  return (
+    <Sheet onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <button
+          className="text-xs text-muted-foreground hover:underline"
+          suppressHydrationWarning
+        >
+          (edited {formatRelativeTime(editedAt)})
+        </button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Edit history</SheetTitle>
+          <SheetDescription>
+            Each revision is compared with the one before it.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex flex-col gap-4 px-4 pb-4">
+          {!revisions ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            revisions
+              .map((revision, index) => (
+                <div key={index}>
+                  <p className="mb-1 text-xs text-muted-foreground">
+                    {index === 0
+                      ? "Original"
+                      : index === revisions.length - 1
+                        ? "Current"
+                        : `Revision ${index}`}{" "}
+                    · {formatRelativeTime(revision.createdAt)}
+                  </p>
+                  <DiffView
+                    before={
+                      index === 0
+                        ? revision.description
+                        : revisions[index - 1].description
+                    }
+                    after={revision.description}
+                  />
+                </div>
+              ))
+              .reverse()
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
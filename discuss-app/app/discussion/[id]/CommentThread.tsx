@@ -0,0 +1,73 @@
+"use client";
+
+import type { CommentNode } from "@/app/actions/comment.actions";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import CommentCard from "./CommentCard";
+
+interface CommentThreadProps {
+  comment: CommentNode;
+  currentUserId?: string;
+  depth: number;
+  maxDepth: number;
+}
+
+function countReplies(comment: CommentNode): number {
+  return comment.replies.reduce(
+    (total, reply) => total + 1 + countReplies(reply),
+    0
+  );
+}
+
+export default function CommentThread({
+  comment,
+  currentUserId,
+  depth,
+  maxDepth,
+}: CommentThreadProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const hasReplies = comment.replies.length > 0;
+
+  return (
+    <div>
+      <CommentCard comment={comment} currentUserId={currentUserId} />
+      {hasReplies && (
+        <div className="ml-4 border-l pl-2">
+          {depth >= maxDepth ? (
+            <Link
+              href={`/discussion/${comment.discussId}?thread=${comment._id}`}
+              className="text-sm text-muted-foreground hover:underline ml-2"
+            >
+              Continue this thread ({countReplies(comment)} more)
+            </Link>
+          ) : (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setIsCollapsed(!isCollapsed)}
+              >
+                {isCollapsed ? <ChevronRight /> : <ChevronDown />}
+                {isCollapsed
+                  ? `Show ${countReplies(comment)} replies`
+                  : "Hide replies"}
+              </Button>
+              {!isCollapsed &&
+                comment.replies.map((reply) => (
+                  <CommentThread
+                    key={reply._id}
+                    comment={reply}
+                    currentUserId={currentUserId}
+                    depth={depth + 1}
+                    maxDepth={maxDepth}
+                  />
+                ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
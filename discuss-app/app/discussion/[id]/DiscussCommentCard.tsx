@@ -1,24 +1,61 @@
-import { Card, CardContent, CardDescription } from "@/components/ui/card";
-import CommentCard from "./CommentCard";
+"use client";
 
-type discussCommentType = {
-  _id: string;
-  userId: string;
-  discussId: string;
-  description: string;
-  upVote: number;
-  createdAt: string;
-  createdBy: string;
-  isLikedByCurrentUser: boolean;
-};
+import { Card, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  CommentNode,
+  getCommentByDiscussionId,
+} from "@/app/actions/comment.actions";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import Link from "next/link";
+import { useState } from "react";
+import CommentThread from "./CommentThread";
 
 interface DiscussCommentCardProps {
-  comments: discussCommentType[];
+  discussId: string;
+  comments: CommentNode[];
+  nextCursor: string | null;
+  currentUserId?: string;
+  maxDepth?: number;
+  isThreadView?: boolean;
 }
 
 export default function DiscussCommentCard({
-  comments,
+  discussId,
+  comments: initialComments,
+  nextCursor: initialCursor,
+  currentUserId,
+  maxDepth = 4,
+  isThreadView,
 }: DiscussCommentCardProps) {
+  const [comments, setComments] = useState(initialComments);
+  const [nextCursor, setNextCursor] = useState(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [previousInitial, setPreviousInitial] = useState(initialComments);
+
+  if (initialComments !== previousInitial) {
+    setPreviousInitial(initialComments);
+    setComments(initialComments);
+    setNextCursor(initialCursor);
+  }
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const page = await getCommentByDiscussionId(discussId, nextCursor);
+      setComments((current) => [...current, ...page.comments]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Error loading comments:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (comments.length === 0) {
     return (
       <div>
@@ -33,7 +70,33 @@ export default function DiscussCommentCard({
     );
   }
 
-  return comments.map((comment) => (
-    <CommentCard key={comment._id} comment={comment} />
-  ));
+  return (
+    <div className="mt-3">
+      {isThreadView && (
+        <Link
+          href={`/discussion/${discussId}`}
+          className="text-sm text-muted-foreground hover:underline ml-2"
+        >
+          ← Back to all comments
+        </Link>
+      )}
+      {comments.map((comment) => (
+        <CommentThread
+          key={comment._id}
+          comment={comment}
+          currentUserId={currentUserId}
+          depth={1}
+          maxDepth={maxDepth}
+        />
+      ))}
+      {isLoading && <Skeleton className="m-2 h-24" />}
+      {nextCursor && !isLoading && (
+        <div className="flex justify-center mt-2">
+          <Button variant="outline" size="sm" onClick={handleLoadMore}>
+            Load more comments
+          </Button>
+        </div>
+      )}
+    </div>
+  );
 }
@@ -2,23 +2,33 @@
 
 import addComment from "@/app/actions/comment.actions";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Send } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { isPostingError, postingErrorTitle } from "@/app/lib/postingErrors";
+import { createCommentSchema } from "@/app/lib/validations";
+import MarkdownEditor from "../components/MarkdownEditor";
+
+const commentMaxLength =
+  createCommentSchema.shape.description.maxLength ?? undefined;
 
 interface DiscussSendCommentProps {
   discussId: string;
   userId?: string;
+  parentId?: string;
+  onSuccess?: () => void;
 }
 
 export default function DiscussSendComment({
   discussId,
   userId,
+  parentId,
+  onSuccess,
 }: DiscussSendCommentProps) {
   const [comment, setComment] = useState("");
   const [error, setError] = useState("");
+  const [errorTitle, setErrorTitle] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
   const router = useRouter();
@@ -30,14 +40,19 @@ export default function DiscussSendComment({
 
     setIsLoading(true);
     setError("");
+    setErrorTitle("");
 
     try {
-      const res = await addComment(discussId, comment, userId);
+      const res = await addComment(discussId, comment, parentId);
       if (res?.success) {
         setComment("");
+        onSuccess?.();
         router.refresh();
       } else {
         setError(res?.error || "Failed to add comment");
+        if (isPostingError(res)) {
+          setErrorTitle(postingErrorTitle(res.code));
+        }
       }
     } catch (err) {
       setError("An error occurred while adding comment");
@@ -48,21 +63,27 @@ export default function DiscussSendComment({
   };
   return (
     <div className="flex flex-col mt-3">
-      <Label className="mb-2">Comment:</Label>
-      <div className="flex justify-center items-center gap-2">
-        <Input
-          value={comment}
-          onChange={(e) => setComment(e.target.value)}
-          className=""
-          placeholder="What do you think..."
-          disabled={isLoading}
-        />
+      <Label className="mb-2">{parentId ? "Reply:" : "Comment:"}</Label>
+      <MarkdownEditor
+        value={comment}
+        onChange={setComment}
+        maxLength={commentMaxLength}
+        placeholder={parentId ? "Write a reply..." : "What do you think..."}
+        disabled={isLoading}
+        rows={3}
+      />
+      <div className="flex justify-end mt-2">
         <Button variant="outline" onClick={handleSubmit} disabled={isLoading}>
           <Send />
           {isLoading ? "Sending..." : "Send"}
         </Button>
       </div>
-      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+      {error && (
+        <p className="text-red-500 text-sm mt-2">
+          {errorTitle && <span className="font-semibold">{errorTitle}: </span>}
+          {error}
+        </p>
+      )}
     </div>
   );
 }
@@ -1,6 +1,5 @@
 "use client";
 
-import { useState } from "react";
 import {
   Card,
   CardContent,
@@ -10,82 +9,97 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { ThumbsUp } from "lucide-react";
+import { Eye, MessageCircleMore } from "lucide-react";
 import { formatRelativeTime } from "@/lib/dateUtils";
-import { toggleLike } from "@/app/actions/discussion.actions";
+import Link from "next/link";
+import { voteDiscussion } from "@/app/actions/discussion.actions";
+import { Vote } from "@/app/lib/votes";
+import VoteButtons from "../components/VoteButtons";
+import DiscussionOwnerActions from "../components/DiscussionOwnerActions";
+import MarkdownContent from "../components/MarkdownContent";
+import TagBadges from "../components/TagBadges";
+import AuthorBadge from "../components/AuthorBadge";
+import ReactionBar from "../components/ReactionBar";
+import { ReactionSummary } from "@/app/lib/reactions";
 
 type DiscussionDetailType = {
   _id: string;
   userId: string;
   title: string;
   description: string;
+  descriptionHtml: string;
+  tags: string[];
+  commentCount: number;
+  viewCount: number;
   upVote: number;
+  downVote: number;
+  score: number;
   createdAt: string;
+  editedAt: string | null;
   createdBy: string;
-  isLikedByCurrentUser: boolean;
+  currentVote: Vote;
+  reactions: ReactionSummary[];
 };
 
 export default function DiscussionDetailCard({
   discussion,
+  isOwner,
 }: {
   discussion: DiscussionDetailType;
+  isOwner?: boolean;
 }) {
-  const [isLiked, setIsLiked] = useState(discussion.isLikedByCurrentUser);
-  const [upvoteCount, setUpvoteCount] = useState(discussion.upVote);
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleLike = async () => {
-    const previousIsLiked = isLiked;
-    const previousUpVoteCount = upvoteCount;
-
-    setIsLiked(!isLiked);
-    setUpvoteCount(isLiked ? upvoteCount - 1 : upvoteCount + 1);
-    setIsLoading(true);
-
-    try {
-      const result = await toggleLike(discussion._id);
-
-      if (result.success) {
-        setUpvoteCount(result.upVote);
-        setIsLiked(result.likedBy);
-      } else {
-        setIsLiked(previousIsLiked);
-        setUpvoteCount(previousUpVoteCount);
-        console.error("Failed to toggle like:", result.error);
-      }
-    } catch (err) {
-      setIsLiked(previousIsLiked);
-      setUpvoteCount(previousUpVoteCount);
-      console.error("Error toggling like:", err);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   return (
     <Card>
       <CardHeader className="flex justify-between">
         <CardTitle className="text-2xl">{discussion.title}</CardTitle>
-        <Badge>{discussion.createdBy}</Badge>
+        <AuthorBadge userId={discussion.userId} name={discussion.createdBy} />
       </CardHeader>
       <CardContent>
-        <CardDescription>{discussion.description}</CardDescription>
+        <MarkdownContent html={discussion.descriptionHtml} />
+        <div className="mt-3">
+          <TagBadges tags={discussion.tags} />
+        </div>
+        <div className="mt-3">
+          <ReactionBar
+            target="discussion"
+            targetId={discussion._id}
+            reactions={discussion.reactions}
+          />
+        </div>
       </CardContent>
       <CardFooter className="flex justify-between items-center">
         <div className="flex items-center gap-2">
-          <Button
-            size="sm"
-            variant={isLiked ? "default" : "outline"}
-            onClick={handleLike}
-            disabled={isLoading}
-          >
-            <ThumbsUp className="h-4 w-4 mr-1" />
-            {upvoteCount}
-          </Button>
+          <VoteButtons
+            score={discussion.score}
+            vote={discussion.currentVote}
+            onVote={(direction) => voteDiscussion(discussion._id, direction)}
+            isOwnPost={isOwner}
+          />
+          <Badge variant="outline">
+            <Eye />
+            {discussion.viewCount} views
+          </Badge>
+          <Badge variant="outline">
+            <MessageCircleMore />
+            {discussion.commentCount} comments
+          </Badge>
+          {isOwner && (
+            <DiscussionOwnerActions
+              discussId={discussion._id}
+              redirectTo="/discussion/my-discussions"
+            />
+          )}
         </div>
         <CardDescription suppressHydrationWarning>
           {formatRelativeTime(discussion.createdAt)}
+          {discussion.editedAt && (
+            <Link
+              href={`/discussion/${discussion._id}/history`}
+              className="ml-1 hover:underline"
+            >
+              (edited {formatRelativeTime(discussion.editedAt)})
+            </Link>
+          )}
         </CardDescription>
       </CardFooter>
     </Card>
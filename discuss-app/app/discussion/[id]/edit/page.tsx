@@ -0,0 +1,27 @@
+import { auth } from "@/app/lib/auth";
+import { redirect } from "next/navigation";
+import { getDiscussionById } from "@/app/actions/discussion.actions";
+import AddDiscussionForm from "../../add-discussion/AddDiscussionForm";
+import { Label } from "@/components/ui/label";
+
+export default async function Page({ params }: { params: { id: string } }) {
+  const { id } = await params;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/login");
+  }
+
+  const discussion = await getDiscussionById(id);
+
+  if (!discussion || discussion.userId !== session.user.id) {
+    redirect(`/discussion/${id}`);
+  }
+
+  return (
+    <div>
+      <Label className="mb-3 text-3xl">Edit Discussion</Label>
+      <AddDiscussionForm discussion={discussion} />
+    </div>
+  );
+}
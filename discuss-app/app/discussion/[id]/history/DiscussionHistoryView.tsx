@@ -0,0 +1,199 @@
+"use client";
+
+import {
+  DiscussionRevisionItem,
+  revertDiscussion,
+} from "@/app/actions/discussion.actions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatRelativeTime } from "@/lib/dateUtils";
+import { History } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import DiffView from "../../components/DiffView";
+
+interface DiscussionHistoryViewProps {
+  discussId: string;
+  revisions: DiscussionRevisionItem[];
+  isOwner: boolean;
+}
+
+function revisionLabel(index: number, total: number) {
+  if (index === total - 1) {
+    return "Current";
+  }
+  return index === 0 ? "Original" : `Revision ${index}`;
+}
+
+export default function DiscussionHistoryView({
+  discussId,
+  revisions,
+  isOwner,
+}: DiscussionHistoryViewProps) {
+  const latest = revisions.length - 1;
+  const [from, setFrom] = useState(Math.max(latest - 1, 0));
+  const [to, setTo] = useState(latest);
+  const [revertIndex, setRevertIndex] = useState<number | null>(null);
+  const [isReverting, setIsReverting] = useState(false);
+  const [error, setError] = useState("");
+  const [previousRevisions, setPreviousRevisions] = useState(revisions);
+
+  const router = useRouter();
+
+  // A revert adds a revision, so compare the new current version with the
+  // one it replaced once the refreshed list arrives.
+  if (revisions !== previousRevisions) {
+    setPreviousRevisions(revisions);
+    setFrom(Math.max(latest - 1, 0));
+    setTo(latest);
+  }
+
+  const handleConfirmRevert = async () => {
+    if (revertIndex === null) {
+      return;
+    }
+    setIsReverting(true);
+    setError("");
+
+    try {
+      const result = await revertDiscussion(discussId, revertIndex);
+      if (result.success) {
+        setRevertIndex(null);
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to revert discussion");
+      }
+    } catch (err) {
+      setError("An error occurred while reverting discussion");
+      console.error(err);
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const before = revisions[from];
+  const after = revisions[to];
+
+  return (
+    <div className="flex flex-col gap-4 md:w-3/4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Revisions</CardTitle>
+          <CardDescription>
+            Pick two revisions to compare. The left column is the older side.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          {revisions
+            .map((revision, index) => (
+              <div
+                key={index}
+                className="flex items-center gap-3 text-sm border-b pb-2 last:border-b-0"
+              >
+                <input
+                  type="radio"
+                  name="from"
+                  aria-label={`Compare from ${revisionLabel(index, revisions.length)}`}
+                  checked={from === index}
+                  disabled={index >= to}
+                  onChange={() => setFrom(index)}
+                />
+                <input
+                  type="radio"
+                  name="to"
+                  aria-label={`Compare to ${revisionLabel(index, revisions.length)}`}
+                  checked={to === index}
+                  disabled={index <= from}
+                  onChange={() => setTo(index)}
+                />
+                <span className="font-medium">
+                  {revisionLabel(index, revisions.length)}
+                </span>
+                <span className="text-muted-foreground">
+                  {revision.editedBy} ·{" "}
+                  <span suppressHydrationWarning>
+                    {formatRelativeTime(revision.createdAt)}
+                  </span>
+                </span>
+                {isOwner && index !== latest && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto"
+                    onClick={() => setRevertIndex(index)}
+                  >
+                    <History />
+                    Revert
+                  </Button>
+                )}
+              </div>
+            ))
+            .reverse()}
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {revisions.length > 1 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {revisionLabel(from, revisions.length)} →{" "}
+              {revisionLabel(to, revisions.length)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-3">
+            <DiffView before={before.title} after={after.title} />
+            <DiffView before={before.description} after={after.description} />
+          </CardContent>
+        </Card>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This discussion has not been edited.
+        </p>
+      )}
+
+      <AlertDialog
+        open={revertIndex !== null}
+        onOpenChange={(open) => !open && setRevertIndex(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert to this revision?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The discussion will be restored to this version. The current
+              version stays in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReverting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmRevert();
+              }}
+              disabled={isReverting}
+            >
+              {isReverting ? "Reverting..." : "Revert"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
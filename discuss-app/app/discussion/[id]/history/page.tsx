@@ -0,0 +1,34 @@
+import { Card, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { getDiscussionHistory } from "@/app/actions/discussion.actions";
+import Link from "next/link";
+import DiscussionHistoryView from "./DiscussionHistoryView";
+
+export default async function Page({ params }: { params: { id: string } }) {
+  const { id } = await params;
+  const history = await getDiscussionHistory(id);
+
+  if (!history)
+    return (
+      <Card key={0}>
+        <CardTitle>Discussion not found</CardTitle>
+      </Card>
+    );
+
+  return (
+    <div>
+      <Label className="mb-1 text-3xl">Revision history</Label>
+      <Link
+        href={`/discussion/${history._id}`}
+        className="mb-4 block text-sm text-muted-foreground hover:underline"
+      >
+        {history.title}
+      </Link>
+      <DiscussionHistoryView
+        discussId={history._id}
+        revisions={history.revisions}
+        isOwner={history.isOwner}
+      />
+    </div>
+  );
+}
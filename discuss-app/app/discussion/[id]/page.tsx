@@ -1,19 +1,29 @@
 import { Card, CardTitle } from "@/components/ui/card";
-import { getDiscussionById } from "@/app/actions/discussion.actions";
+import {
+  getDiscussionById,
+  recordDiscussionView,
+} from "@/app/actions/discussion.actions";
 import DiscussCommentCard from "./DiscussCommentCard";
 import DiscussSendComment from "./DiscussSendComment";
-import { getCommentByDiscussionId } from "@/app/actions/comment.actions";
+import {
+  getCommentByDiscussionId,
+  getCommentThread,
+} from "@/app/actions/comment.actions";
 import { auth } from "@/app/lib/auth";
 import DiscussionDetailCard from "./DiscussionDetailCard";
 
 export default async function DiscussionPage({
   params,
+  searchParams,
 }: {
   params: { id: string };
+  searchParams: { thread?: string };
 }) {
   const { id } = await params;
+  const { thread } = await searchParams;
   const session = await auth();
 
+  await recordDiscussionView(id);
   const discussion = await getDiscussionById(id);
 
   if (!discussion)
@@ -23,15 +33,29 @@ export default async function DiscussionPage({
       </Card>
     );
 
-  const comments = await getCommentByDiscussionId(discussion._id);
+  const threadComment = thread
+    ? await getCommentThread(discussion._id, thread)
+    : null;
+  const { comments, nextCursor } = threadComment
+    ? { comments: [threadComment], nextCursor: null }
+    : await getCommentByDiscussionId(discussion._id);
   return (
     <div>
-      <DiscussionDetailCard discussion={discussion} />
+      <DiscussionDetailCard
+        discussion={discussion}
+        isOwner={session?.user?.id === discussion.userId}
+      />
       <DiscussSendComment
         discussId={discussion._id}
         userId={session?.user?.id}
       />
-      <DiscussCommentCard comments={comments} />
+      <DiscussCommentCard
+        discussId={discussion._id}
+        comments={comments}
+        nextCursor={nextCursor}
+        currentUserId={session?.user?.id}
+        isThreadView={Boolean(threadComment)}
+      />
     </div>
   );
 }
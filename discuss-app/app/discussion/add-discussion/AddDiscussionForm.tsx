@@ -1,6 +1,9 @@
 "use client";
 
-import { addDiscussion } from "@/app/actions/discussion.actions";
+import {
+  addDiscussion,
+  updateDiscussion,
+} from "@/app/actions/discussion.actions";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -12,18 +15,36 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { isPostingError, postingErrorTitle } from "@/app/lib/postingErrors";
+import { createDiscussionSchema } from "@/app/lib/validations";
+import { cn } from "@/lib/utils";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import MarkdownEditor from "../components/MarkdownEditor";
+import TagPicker from "../components/TagPicker";
+
+const titleMaxLength =
+  createDiscussionSchema.shape.title.maxLength ?? undefined;
+const descriptionMaxLength =
+  createDiscussionSchema.shape.description.maxLength ?? undefined;
 
 interface AddDiscussionFormProps {
-  userId: string;
+  discussion?: {
+    _id: string;
+    title: string;
+    description: string;
+    tags: string[];
+  };
 }
 
-export default function AddDiscussionForm({ userId }: AddDiscussionFormProps) {
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
+export default function AddDiscussionForm({
+  discussion,
+}: AddDiscussionFormProps) {
+  const [title, setTitle] = useState(discussion?.title ?? "");
+  const [description, setDescription] = useState(discussion?.description ?? "");
+  const [tags, setTags] = useState<string[]>(discussion?.tags ?? []);
   const [error, setError] = useState("");
+  const [errorTitle, setErrorTitle] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
   const router = useRouter();
@@ -36,13 +57,21 @@ export default function AddDiscussionForm({ userId }: AddDiscussionFormProps) {
 
     setIsLoading(true);
     setError("");
+    setErrorTitle("");
 
     try {
-      const res = await addDiscussion(title, description, userId);
+      const res = discussion
+        ? await updateDiscussion(discussion._id, title, description, tags)
+        : await addDiscussion(title, description, tags);
       if (res?.success) {
-        router.push("/discussion");
+        router.push(
+          discussion ? `/discussion/${discussion._id}` : "/discussion"
+        );
       } else {
         setError(res?.error || "Error while adding");
+        if (isPostingError(res)) {
+          setErrorTitle(postingErrorTitle(res.code));
+        }
       }
     } catch (err) {
       if (err instanceof Error) {
@@ -55,15 +84,20 @@ export default function AddDiscussionForm({ userId }: AddDiscussionFormProps) {
     }
   };
 
+  const submitLabel = discussion ? "Save" : "Post";
+  const loadingLabel = discussion ? "Saving..." : "Posting...";
+
   const handleCancel = () => {
-    router.push("/discussion");
+    router.push(discussion ? `/discussion/${discussion._id}` : "/discussion");
   };
 
   return (
     <div>
       <Card className="mt-3">
         <CardHeader>
-          <CardTitle>Create new Discussion</CardTitle>
+          <CardTitle>
+            {discussion ? "Edit Discussion" : "Create new Discussion"}
+          </CardTitle>
           <CardDescription>
             What&apos;s on your mind that you wanna discuss
           </CardDescription>
@@ -71,6 +105,7 @@ export default function AddDiscussionForm({ userId }: AddDiscussionFormProps) {
         <CardContent>
           {error && (
             <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+              {errorTitle && <p className="font-semibold">{errorTitle}</p>}
               {error}
             </div>
           )}
@@ -82,24 +117,39 @@ export default function AddDiscussionForm({ userId }: AddDiscussionFormProps) {
               placeholder="Enter discussion topic"
               disabled={isLoading}
             />
+            {titleMaxLength !== undefined && (
+              <p
+                className={cn(
+                  "text-right text-xs text-muted-foreground mt-1",
+                  title.length > titleMaxLength && "text-red-500"
+                )}
+              >
+                {title.length}/{titleMaxLength}
+              </p>
+            )}
           </div>
           <div className="mb-3">
             <Label className="mb-2">Idea</Label>
-            <Textarea
-              onChange={(e) => setDescription(e.target.value)}
+            <MarkdownEditor
+              onChange={setDescription}
               value={description}
+              maxLength={descriptionMaxLength}
               placeholder="What's on your mind"
               disabled={isLoading}
               rows={6}
             />
           </div>
+          <div className="mb-3">
+            <Label className="mb-2">Tags</Label>
+            <TagPicker tags={tags} onChange={setTags} disabled={isLoading} />
+          </div>
         </CardContent>
         <CardFooter className="flex justify-end gap-3">
           <Button onClick={handleCancel} variant="outline" disabled={isLoading}>
             Cancel
           </Button>
           <Button onClick={handleSubmit} disabled={isLoading}>
-            {isLoading ? "Posting..." : "Post"}
+            {isLoading ? loadingLabel : submitLabel}
           </Button>
         </CardFooter>
       </Card>
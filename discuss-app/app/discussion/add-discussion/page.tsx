@@ -13,7 +13,7 @@ export default async function Page() {
   return (
     <div>
       <Label className="mb-3 text-3xl">New Discussion</Label>
-      <AddDiscussionForm userId={session.user.id} />
+      <AddDiscussionForm />
     </div>
   );
 }
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import Link from "next/link";
+
+interface AuthorBadgeProps {
+  userId?: string;
+  name: string;
+  className?: string;
+}
+
+export default function AuthorBadge({
+  userId,
+  name,
+  className,
+}: AuthorBadgeProps) {
+  if (!userId) {
+    return <Badge className={className}>{name}</Badge>;
+  }
+
+  return (
+    <Badge className={className} asChild>
+      <Link href={`/user/${userId}`}>{name}</Link>
+    </Badge>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { diffWords } from "diff";
+import { useMemo } from "react";
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+}
+
+export default function DiffView({ before, after }: DiffViewProps) {
+  const changes = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <pre className="whitespace-pre-wrap break-words rounded-md border p-3 text-sm font-sans">
+      {changes.map((change, index) =>
+        change.added ? (
+          <ins
+            key={index}
+            className="bg-green-100 text-green-800 no-underline dark:bg-green-900/40 dark:text-green-300"
+          >
+            {change.value}
+          </ins>
+        ) : change.removed ? (
+          <del
+            key={index}
+            className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+          >
+            {change.value}
+          </del>
+        ) : (
+          <span key={index}>{change.value}</span>
+        )
+      )}
+    </pre>
+  );
+}
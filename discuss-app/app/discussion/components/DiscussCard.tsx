@@ -1,14 +1,21 @@
 import { DiscussionProp } from "./DiscussHome";
 import DiscussionCardItem from "./DiscussionCardItem";
 
-export default function DiscussCard({ discussions }: DiscussionProp) {
+export default function DiscussCard({
+  discussions,
+  showOwnerActions,
+}: DiscussionProp) {
   if (!discussions || discussions.length === 0) {
     return <div>No discussions found.</div>;
   }
   return (
     <div className="flex flex-col justify-center w-full md:w-3/4 md:m-10">
       {discussions.map((discussion) => (
-        <DiscussionCardItem key={discussion._id} discussion={discussion} />
+        <DiscussionCardItem
+          key={discussion._id}
+          discussion={discussion}
+          showOwnerActions={showOwnerActions}
+        />
       ))}
     </div>
   );
@@ -1,25 +1,121 @@
 "use client";
 
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEffect, useRef, useState } from "react";
 import DiscussCard from "./DiscussCard";
+import { Vote } from "@/app/lib/votes";
 
 export type discussionType = {
   _id: string;
+  userId?: string;
   title: string;
   description: string;
+  excerpt: string;
+  tags: string[];
+  commentCount: number;
+  viewCount: number;
   upVote: number;
+  downVote: number;
+  score: number;
   createdAt: string;
   createdBy: string;
-  isLikedByCurrentUser: boolean;
+  currentVote: Vote;
+  isOwner: boolean;
 };
 
 export interface DiscussionProp {
   discussions: discussionType[];
+  showOwnerActions?: boolean;
 }
 
-export default function DiscussHome({ discussions }: DiscussionProp) {
+export type DiscussionPage = {
+  discussions: discussionType[];
+  nextCursor: string | null;
+};
+
+interface DiscussHomeProps extends DiscussionProp {
+  nextCursor: string | null;
+  loadMore: (cursor: string) => Promise<DiscussionPage>;
+}
+
+function DiscussCardSkeleton() {
+  return (
+    <Card className="m-1">
+      <CardHeader>
+        <Skeleton className="h-6 w-2/3" />
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-4/5" />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DiscussHome({
+  discussions: initialDiscussions,
+  nextCursor: initialCursor,
+  loadMore,
+  showOwnerActions,
+}: DiscussHomeProps) {
+  const [discussions, setDiscussions] = useState(initialDiscussions);
+  const [nextCursor, setNextCursor] = useState(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [previousInitial, setPreviousInitial] = useState(initialDiscussions);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Start over when the server sends a fresh first page (e.g. after
+  // router.refresh()).
+  if (initialDiscussions !== previousInitial) {
+    setPreviousInitial(initialDiscussions);
+    setDiscussions(initialDiscussions);
+    setNextCursor(initialCursor);
+  }
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoading) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      async ([entry]) => {
+        if (!entry.isIntersecting) {
+          return;
+        }
+        observer.disconnect();
+        setIsLoading(true);
+        try {
+          const page = await loadMore(nextCursor);
+          setDiscussions((current) => [...current, ...page.discussions]);
+          setNextCursor(page.nextCursor);
+        } catch (err) {
+          console.error("Error loading discussions:", err);
+        } finally {
+          setIsLoading(false);
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoading, loadMore]);
+
   return (
     <div>
-      <DiscussCard discussions={discussions} />
+      <DiscussCard
+        discussions={discussions}
+        showOwnerActions={showOwnerActions}
+      />
+      {isLoading && (
+        <div className="flex flex-col w-full md:w-3/4 md:mx-10">
+          <DiscussCardSkeleton />
+          <DiscussCardSkeleton />
+        </div>
+      )}
+      <div ref={sentinelRef} />
     </div>
   );
 }
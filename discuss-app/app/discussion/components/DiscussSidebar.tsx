@@ -6,17 +6,28 @@ import {
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
+  SidebarHeader,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
-import { BookCheck, Home, PlusSquare } from "lucide-react";
+import { BookCheck, Hash, Home, PlusSquare, Shield } from "lucide-react";
 import Link from "next/link";
 import DiscussSidebarUserSection from "./DiscussSidebarUserSection";
+import { getPopularTags } from "@/app/actions/tag.actions";
+import DiscussSidebarSearch from "./DiscussSidebarSearch";
+import { auth } from "@/app/lib/auth";
 
 export default async function DiscussSidebar() {
+  const popularTags = await getPopularTags();
+  const session = await auth();
+
   return (
     <Sidebar>
+      <SidebarHeader>
+        <DiscussSidebarSearch />
+      </SidebarHeader>
       <SidebarContent>
         <SidebarGroup>
           <SidebarGroupLabel>Discuss</SidebarGroupLabel>
@@ -43,10 +54,39 @@ export default async function DiscussSidebar() {
                     <Label>My Discussions</Label>
                   </SidebarMenuButton>
                 </Link>
+
+                {session?.user?.role === "admin" && (
+                  <Link href="/admin">
+                    <SidebarMenuButton>
+                      <Shield />
+                      <Label>Admin</Label>
+                    </SidebarMenuButton>
+                  </Link>
+                )}
               </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+        {popularTags.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Popular tags</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {popularTags.map((tag) => (
+                  <SidebarMenuItem key={tag.slug}>
+                    <Link href={`/discussion/tag/${tag.slug}`}>
+                      <SidebarMenuButton>
+                        <Hash />
+                        <Label>{tag.slug}</Label>
+                      </SidebarMenuButton>
+                    </Link>
+                    <SidebarMenuBadge>{tag.count}</SidebarMenuBadge>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
       <SidebarFooter>
         <DiscussSidebarUserSection />
@@ -1,6 +1,5 @@
 "use client";
 
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,11 +16,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { EllipsisVertical, LogOut, User } from "lucide-react";
+import { EllipsisVertical, LogOut, Settings } from "lucide-react";
+import Link from "next/link";
 import { signOut } from "next-auth/react";
 import { useState } from "react";
 import { ThemeToggle } from "./ThemeToggle";
 import { Button } from "@/components/ui/button";
+import UserAvatar from "./UserAvatar";
 
 interface DiscussSidebarUserClientProps {
   userName: string;
@@ -47,15 +48,7 @@ export default function DiscussSidebarUserClient({
   return (
     <>
       <div className="flex items-center text-sm gap-2 px-1 py-1.5 text-left">
-        <Avatar className="h-8 w-8 rounded-full overflow-hidden flex items-center justify-center bg-gray-200">
-          {userImage ? (
-            <AvatarImage src={userImage} alt={userName} />
-          ) : (
-            <AvatarFallback className="flex items-center justify-center w-full h-full">
-              <User className="h-4 w-4" />
-            </AvatarFallback>
-          )}
-        </Avatar>
+        <UserAvatar name={userName} image={userImage} size={32} />
         <div className="grid flex-1 text-left text-sm leading-tight">
           <span className="font-medium">{userName}</span>
           <span className="text-xs text-muted-foreground">{userEmail}</span>
@@ -72,6 +65,13 @@ export default function DiscussSidebarUserClient({
               <ThemeToggle />
             </DropdownMenuItem>
 
+            <DropdownMenuItem asChild className="cursor-pointer">
+              <Link href="/settings">
+                <Settings />
+                <span>Settings</span>
+              </Link>
+            </DropdownMenuItem>
+
             <DropdownMenuItem
               onClick={handleSignOutClick}
               className="cursor-pointer"
@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button";
+import { ButtonGroup } from "@/components/ui/button-group";
+import { DiscussionSort, TopWindow } from "@/app/lib/validations";
+import Link from "next/link";
+
+const sortLabels: Record<DiscussionSort, string> = {
+  new: "New",
+  top: "Top",
+  hot: "Hot",
+  discussed: "Most Discussed",
+};
+
+const windowLabels: Record<TopWindow, string> = {
+  day: "Today",
+  week: "This week",
+  month: "This month",
+  all: "All time",
+};
+
+interface DiscussSortBarProps {
+  sort: DiscussionSort;
+  timeWindow: TopWindow;
+}
+
+export default function DiscussSortBar({
+  sort,
+  timeWindow,
+}: DiscussSortBarProps) {
+  return (
+    <div className="flex flex-wrap gap-2 my-3 md:mx-10">
+      <ButtonGroup>
+        {Object.entries(sortLabels).map(([value, label]) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={sort === value ? "default" : "outline"}
+            asChild
+          >
+            <Link href={`/discussion?sort=${value}`}>{label}</Link>
+          </Button>
+        ))}
+      </ButtonGroup>
+      {sort === "top" && (
+        <ButtonGroup>
+          {Object.entries(windowLabels).map(([value, label]) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={timeWindow === value ? "secondary" : "ghost"}
+              asChild
+            >
+              <Link href={`/discussion?sort=top&window=${value}`}>{label}</Link>
+            </Button>
+          ))}
+        </ButtonGroup>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,5 @@
 "use client";
 
-import { useState } from "react";
 import { discussionType } from "./DiscussHome";
 import {
   Card,
@@ -12,50 +11,24 @@ import {
 } from "@/components/ui/card";
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
-import { Eye, MessageCircleMore, ThumbsUp } from "lucide-react";
-import { ButtonGroup } from "@/components/ui/button-group";
+import { Eye, MessageCircleMore } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { formatRelativeTime } from "@/lib/dateUtils";
-import { toggleLike } from "@/app/actions/discussion.actions";
+import { voteDiscussion } from "@/app/actions/discussion.actions";
+import DiscussionOwnerActions from "./DiscussionOwnerActions";
+import TagBadges from "./TagBadges";
+import AuthorBadge from "./AuthorBadge";
+import VoteButtons from "./VoteButtons";
 
 interface DiscussionCardItemProp {
   discussion: discussionType;
+  showOwnerActions?: boolean;
 }
 
 export default function DiscussionCardItem({
   discussion,
+  showOwnerActions,
 }: DiscussionCardItemProp) {
-  const [isLiked, setIsLiked] = useState(discussion.isLikedByCurrentUser);
-  const [upvoteCount, setUpvoteCount] = useState(discussion.upVote);
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleLike = async () => {
-    const previousIsLiked = isLiked;
-    const previousUpVoteCount = upvoteCount;
-
-    setIsLiked(!isLiked);
-    setUpvoteCount(isLiked ? upvoteCount - 1 : upvoteCount + 1);
-    setIsLoading(true);
-
-    try {
-      const result = await toggleLike(discussion._id);
-
-      if (result.success) {
-        setUpvoteCount(result.upVote);
-        setIsLiked(result.likedBy);
-      } else {
-        setIsLiked(previousIsLiked);
-        setUpvoteCount(previousUpVoteCount);
-        console.error("Failed to toggle like:", result.error);
-      }
-    } catch (err) {
-      setIsLiked(previousIsLiked);
-      setUpvoteCount(previousUpVoteCount);
-      console.error("Error toggling like:", err);
-    } finally {
-      setIsLoading(false);
-    }
-  };
   return (
     <Card className="m-1" key={discussion._id}>
       <CardHeader className="flex justify-between">
@@ -63,34 +36,35 @@ export default function DiscussionCardItem({
         <div className="flex gap-2">
           <Link href={`/discussion/${discussion._id}`}>
             <Badge variant="outline">
-              View <Eye />
+              {discussion.viewCount} <Eye />
             </Badge>
           </Link>
-          <Badge>{discussion.createdBy}</Badge>
+          <AuthorBadge userId={discussion.userId} name={discussion.createdBy} />
         </div>
       </CardHeader>
       <CardContent>
-        <CardDescription>{discussion.description}</CardDescription>
+        <CardDescription>{discussion.excerpt}</CardDescription>
+        <div className="mt-3">
+          <TagBadges tags={discussion.tags} />
+        </div>
       </CardContent>
       <CardFooter className="flex justify-between">
         <div className="flex gap-2">
-          <ButtonGroup>
-            <Button size="icon-sm">{upvoteCount}</Button>
-            <Button
-              size="icon-sm"
-              variant={isLiked ? "default" : "outline"}
-              onClick={handleLike}
-              disabled={isLoading}
-            >
-              <ThumbsUp />
+          <VoteButtons
+            score={discussion.score}
+            vote={discussion.currentVote}
+            onVote={(direction) => voteDiscussion(discussion._id, direction)}
+            isOwnPost={discussion.isOwner}
+          />
+          <Link href={`/discussion/${discussion._id}`}>
+            <Button variant="outline" size="sm">
+              {discussion.commentCount}
+              <MessageCircleMore />
             </Button>
-            <Link href={`/discussion/${discussion._id}`}>
-              <Button variant="outline" size="sm">
-                Comment
-                <MessageCircleMore />
-              </Button>
-            </Link>
-          </ButtonGroup>
+          </Link>
+          {showOwnerActions && (
+            <DiscussionOwnerActions discussId={discussion._id} />
+          )}
         </div>
 
         <CardDescription suppressHydrationWarning>
@@ -0,0 +1,105 @@
+"use client";
+
+import { deleteDiscussion } from "@/app/actions/discussion.actions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Pencil, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+interface DiscussionOwnerActionsProps {
+  discussId: string;
+  redirectTo?: string;
+}
+
+export default function DiscussionOwnerActions({
+  discussId,
+  redirectTo,
+}: DiscussionOwnerActionsProps) {
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState("");
+
+  const router = useRouter();
+
+  const handleConfirmDelete = async () => {
+    setIsDeleting(true);
+    setError("");
+
+    try {
+      const result = await deleteDiscussion(discussId);
+      if (result.success) {
+        setShowDeleteDialog(false);
+        if (redirectTo) {
+          router.push(redirectTo);
+        } else {
+          router.refresh();
+        }
+      } else {
+        setError(result.error || "Failed to delete discussion");
+      }
+    } catch (err) {
+      setError("An error occurred while deleting discussion");
+      console.error(err);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Link href={`/discussion/${discussId}/edit`}>
+          <Button variant="outline" size="sm">
+            <Pencil />
+            Edit
+          </Button>
+        </Link>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => setShowDeleteDialog(true)}
+          disabled={isDeleting}
+        >
+          <Trash2 />
+          Delete
+        </Button>
+      </div>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this discussion?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The discussion and all of its comments will be permanently
+              removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmDelete();
+              }}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  html: string;
+  className?: string;
+}
+
+export default function MarkdownContent({
+  html,
+  className,
+}: MarkdownContentProps) {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm dark:prose-invert max-w-none text-muted-foreground",
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
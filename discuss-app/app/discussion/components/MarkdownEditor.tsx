@@ -0,0 +1,268 @@
+"use client";
+
+import { previewMarkdown } from "@/app/actions/markdown.actions";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  Bold,
+  Code,
+  Italic,
+  Link,
+  List,
+  LucideIcon,
+  TextQuote,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import MarkdownContent from "./MarkdownContent";
+
+type FormatAction = {
+  label: string;
+  icon: LucideIcon;
+  shortcut: string;
+  matches: (e: React.KeyboardEvent) => boolean;
+  apply: (selected: string) => {
+    text: string;
+    selectStart: number;
+    selectEnd: number;
+  };
+  block?: boolean;
+};
+
+function wrap(before: string, after: string, placeholder: string) {
+  return (selected: string) => {
+    const inner = selected || placeholder;
+    return {
+      text: `${before}${inner}${after}`,
+      selectStart: before.length,
+      selectEnd: before.length + inner.length,
+    };
+  };
+}
+
+function prefixLines(prefix: string, placeholder: string) {
+  return (selected: string) => {
+    const text = (selected || placeholder)
+      .split("\n")
+      .map((line) => `${prefix}${line}`)
+      .join("\n");
+    return { text, selectStart: 0, selectEnd: text.length };
+  };
+}
+
+const isMod = (e: React.KeyboardEvent) => e.metaKey || e.ctrlKey;
+
+const formatActions: FormatAction[] = [
+  {
+    label: "Bold",
+    icon: Bold,
+    shortcut: "Ctrl+B",
+    matches: (e) => isMod(e) && !e.shiftKey && e.key.toLowerCase() === "b",
+    apply: wrap("**", "**", "bold text"),
+  },
+  {
+    label: "Italic",
+    icon: Italic,
+    shortcut: "Ctrl+I",
+    matches: (e) => isMod(e) && !e.shiftKey && e.key.toLowerCase() === "i",
+    apply: wrap("_", "_", "italic text"),
+  },
+  {
+    label: "Code",
+    icon: Code,
+    shortcut: "Ctrl+E",
+    matches: (e) => isMod(e) && !e.shiftKey && e.key.toLowerCase() === "e",
+    apply: (selected) =>
+      selected.includes("\n")
+        ? wrap("```\n", "\n```", "")(selected)
+        : wrap("`", "`", "code")(selected),
+  },
+  {
+    label: "Link",
+    icon: Link,
+    shortcut: "Ctrl+K",
+    matches: (e) => isMod(e) && !e.shiftKey && e.key.toLowerCase() === "k",
+    apply: (selected) => {
+      const inner = selected || "link text";
+      return {
+        text: `[${inner}](https://)`,
+        selectStart: inner.length + 3,
+        selectEnd: inner.length + 11,
+      };
+    },
+  },
+  {
+    label: "List",
+    icon: List,
+    shortcut: "Ctrl+Shift+8",
+    matches: (e) => isMod(e) && e.shiftKey && e.code === "Digit8",
+    apply: prefixLines("- ", "list item"),
+    block: true,
+  },
+  {
+    label: "Quote",
+    icon: TextQuote,
+    shortcut: "Ctrl+Shift+.",
+    matches: (e) => isMod(e) && e.shiftKey && e.code === "Period",
+    apply: prefixLines("> ", "quote"),
+    block: true,
+  },
+];
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  maxLength?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  rows?: number;
+}
+
+export default function MarkdownEditor({
+  value,
+  onChange,
+  maxLength,
+  placeholder,
+  disabled,
+  rows = 6,
+}: MarkdownEditorProps) {
+  const [mode, setMode] = useState<"write" | "preview">("write");
+  const [previewHtml, setPreviewHtml] = useState("");
+  const [previewError, setPreviewError] = useState("");
+  const [isRendering, setIsRendering] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (mode !== "preview") {
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsRendering(true);
+      const result = await previewMarkdown(value);
+      if (!cancelled) {
+        setPreviewHtml(result.html);
+        setPreviewError(result.error ?? "");
+        setIsRendering(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [mode, value]);
+
+  const applyFormat = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      return;
+    }
+
+    let start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    if (action.block) {
+      start = value.lastIndexOf("\n", start - 1) + 1;
+    }
+
+    const { text, selectStart, selectEnd } = action.apply(
+      value.slice(start, end)
+    );
+    onChange(value.slice(0, start) + text + value.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + selectStart, start + selectEnd);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const action = formatActions.find((format) => format.matches(e));
+    if (action) {
+      e.preventDefault();
+      applyFormat(action);
+    }
+  };
+
+  const isOverLimit = maxLength !== undefined && value.length > maxLength;
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-1">
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === "write" ? "secondary" : "ghost"}
+            onClick={() => setMode("write")}
+          >
+            Write
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === "preview" ? "secondary" : "ghost"}
+            onClick={() => setMode("preview")}
+          >
+            Preview
+          </Button>
+        </div>
+        {mode === "write" && (
+          <div className="flex gap-1">
+            {formatActions.map((action) => (
+              <Button
+                key={action.label}
+                type="button"
+                size="icon-sm"
+                variant="ghost"
+                title={`${action.label} (${action.shortcut})`}
+                aria-label={action.label}
+                onClick={() => applyFormat(action)}
+                disabled={disabled}
+              >
+                <action.icon />
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {mode === "write" ? (
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          disabled={disabled}
+          rows={rows}
+          className="border-0 shadow-none focus-visible:ring-0"
+        />
+      ) : (
+        <div className="min-h-16 px-3 py-2">
+          {isRendering && !previewHtml ? (
+            <p className="text-sm text-muted-foreground">Rendering...</p>
+          ) : previewError ? (
+            <p className="text-red-500 text-sm">{previewError}</p>
+          ) : value.trim() ? (
+            <MarkdownContent html={previewHtml} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      )}
+
+      {maxLength !== undefined && (
+        <div
+          className={cn(
+            "border-t px-3 py-1 text-right text-xs text-muted-foreground",
+            isOverLimit && "text-red-500"
+          )}
+        >
+          {value.length}/{maxLength}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import {
+  getReactionUsers,
+  ReactionTarget,
+  toggleReaction,
+} from "@/app/actions/reaction.actions";
+import { ReactionSummary } from "@/app/lib/reactions";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { SmilePlus, Users } from "lucide-react";
+import { useState } from "react";
+
+interface ReactionBarProps {
+  target: ReactionTarget;
+  targetId: string;
+  reactions: ReactionSummary[];
+}
+
+type ReactionUsers = Awaited<ReturnType<typeof getReactionUsers>>;
+
+export default function ReactionBar({
+  target,
+  targetId,
+  reactions: initialReactions,
+}: ReactionBarProps) {
+  const [reactions, setReactions] = useState(initialReactions);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [reactionUsers, setReactionUsers] = useState<ReactionUsers | null>(
+    null
+  );
+
+  const handleToggle = async (key: ReactionSummary["key"]) => {
+    const previousReactions = reactions;
+
+    setReactions(
+      reactions.map((reaction) =>
+        reaction.key === key
+          ? {
+              ...reaction,
+              reacted: !reaction.reacted,
+              count: reaction.count + (reaction.reacted ? -1 : 1),
+            }
+          : reaction
+      )
+    );
+    setIsPickerOpen(false);
+    setReactionUsers(null);
+    setIsLoading(true);
+
+    try {
+      const result = await toggleReaction(target, targetId, key);
+      if (result.success && result.reactions) {
+        setReactions(result.reactions);
+      } else {
+        setReactions(previousReactions);
+        console.error("Failed to toggle reaction:", result.error);
+      }
+    } catch (err) {
+      setReactions(previousReactions);
+      console.error("Error toggling reaction:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleShowUsers = async (open: boolean) => {
+    if (open && !reactionUsers) {
+      setReactionUsers(await getReactionUsers(target, targetId));
+    }
+  };
+
+  const activeReactions = reactions.filter((reaction) => reaction.count > 0);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {activeReactions.map((reaction) => (
+        <Button
+          key={reaction.key}
+          size="sm"
+          variant={reaction.reacted ? "secondary" : "outline"}
+          onClick={() => handleToggle(reaction.key)}
+          disabled={isLoading}
+          title={reaction.label}
+        >
+          <span>{reaction.emoji}</span>
+          {reaction.count}
+        </Button>
+      ))}
+
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button size="icon-sm" variant="ghost" aria-label="Add reaction">
+            <SmilePlus />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1">
+          <div className="flex gap-1">
+            {reactions.map((reaction) => (
+              <Button
+                key={reaction.key}
+                size="icon-sm"
+                variant={reaction.reacted ? "secondary" : "ghost"}
+                onClick={() => handleToggle(reaction.key)}
+                disabled={isLoading}
+                title={reaction.label}
+              >
+                {reaction.emoji}
+              </Button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {activeReactions.length > 0 && (
+        <Popover onOpenChange={handleShowUsers}>
+          <PopoverTrigger asChild>
+            <Button size="icon-sm" variant="ghost" aria-label="See who reacted">
+              <Users />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64">
+            {!reactionUsers ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <ul className="flex flex-col gap-2 text-sm">
+                {reactionUsers.map((reaction) => (
+                  <li key={reaction.key}>
+                    <span className="mr-2">{reaction.emoji}</span>
+                    {reaction.users.join(", ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import Link from "next/link";
+
+export default function TagBadges({ tags }: { tags: string[] }) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="secondary" asChild>
+          <Link href={`/discussion/tag/${tag}`}>#{tag}</Link>
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { searchTags } from "@/app/actions/tag.actions";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { slugifyTag } from "@/app/lib/validations";
+import { cn } from "@/lib/utils";
+import { X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface TagPickerProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  maxTags?: number;
+  disabled?: boolean;
+}
+
+export default function TagPicker({
+  tags,
+  onChange,
+  maxTags = 5,
+  disabled,
+}: TagPickerProps) {
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const result = await searchTags(query);
+      if (!cancelled) {
+        setSuggestions(result.filter((tag) => !tags.includes(tag)));
+        setHighlighted(0);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, tags]);
+
+  const addTag = (value: string) => {
+    const slug = slugifyTag(value);
+    if (slug.length >= 2 && !tags.includes(slug) && tags.length < maxTags) {
+      onChange([...tags, slug]);
+    }
+    setQuery("");
+    setSuggestions([]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(suggestions[highlighted] ?? query);
+    } else if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(
+        (highlighted - 1 + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Backspace" && !query && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const showSuggestions = query.trim() !== "" && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        {tags.map((tag) => (
+          <Badge key={tag} variant="secondary">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              disabled={disabled}
+              aria-label={`Remove ${tag}`}
+            >
+              <X />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={
+          tags.length >= maxTags
+            ? `Up to ${maxTags} tags`
+            : "Add a tag and press Enter"
+        }
+        disabled={disabled || tags.length >= maxTags}
+      />
+      {showSuggestions && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                className={cn(
+                  "w-full rounded-sm px-2 py-1 text-left text-sm",
+                  index === highlighted && "bg-accent"
+                )}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import {
+  avatarSrc,
+  AvatarSize,
+  fallbackColor,
+  initials,
+} from "@/app/lib/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+interface UserAvatarProps {
+  name: string;
+  image: string | null;
+  size?: AvatarSize;
+  className?: string;
+}
+
+export default function UserAvatar({
+  name,
+  image,
+  size = 32,
+  className,
+}: UserAvatarProps) {
+  return (
+    <Avatar className={className} style={{ width: size, height: size }}>
+      {image && <AvatarImage src={avatarSrc(image, size)} alt={name} />}
+      <AvatarFallback
+        className={cn("font-medium", fallbackColor(name))}
+        style={{ fontSize: size * 0.4 }}
+      >
+        {initials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
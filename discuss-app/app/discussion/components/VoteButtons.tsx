@@ -0,0 +1,84 @@
+"use client";
+
+import { Vote, VoteResult } from "@/app/lib/votes";
+import { Button } from "@/components/ui/button";
+import { ButtonGroup } from "@/components/ui/button-group";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { useState } from "react";
+
+interface VoteButtonsProps {
+  score: number;
+  vote: Vote;
+  onVote: (direction: "up" | "down") => Promise<VoteResult>;
+  isOwnPost?: boolean;
+}
+
+export default function VoteButtons({
+  score: initialScore,
+  vote: initialVote,
+  onVote,
+  isOwnPost,
+}: VoteButtonsProps) {
+  const [vote, setVote] = useState(initialVote);
+  const [score, setScore] = useState(initialScore);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleVote = async (direction: "up" | "down") => {
+    const previousVote = vote;
+    const previousScore = score;
+
+    const value = { up: 1, down: -1, none: 0 };
+    const nextVote = vote === direction ? "none" : direction;
+    setVote(nextVote);
+    setScore(score - value[vote] + value[nextVote]);
+    setIsLoading(true);
+
+    try {
+      const result = await onVote(direction);
+      if (result.success) {
+        setVote(result.vote ?? "none");
+        setScore(result.score ?? 0);
+      } else {
+        setVote(previousVote);
+        setScore(previousScore);
+        console.error("Failed to vote:", result.error);
+      }
+    } catch (err) {
+      setVote(previousVote);
+      setScore(previousScore);
+      console.error("Error voting:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const title = isOwnPost ? "You can't vote on your own post" : undefined;
+
+  return (
+    <ButtonGroup>
+      <Button
+        size="icon-sm"
+        variant={vote === "up" ? "default" : "outline"}
+        onClick={() => handleVote("up")}
+        disabled={isLoading || isOwnPost}
+        title={title ?? "Upvote"}
+        aria-label="Upvote"
+      >
+        <ThumbsUp />
+      </Button>
+      <Button size="sm" variant="outline" className="pointer-events-none">
+        {score}
+      </Button>
+      <Button
+        size="icon-sm"
+        variant={vote === "down" ? "default" : "outline"}
+        onClick={() => handleVote("down")}
+        disabled={isLoading || isOwnPost}
+        title={title ?? "Downvote"}
+        aria-label="Downvote"
+      >
+        <ThumbsDown />
+      </Button>
+    </ButtonGroup>
+  );
+}
@@ -12,6 +12,12 @@ export default async function Layout({
   if (!session) {
     redirect("/login");
   }
+  if (session.twoFactor) {
+    redirect("/login/two-factor");
+  }
+  if (session.twoFactorSetupRequired) {
+    redirect("/settings");
+  }
 
   return (
     <SidebarProvider>
@@ -1,7 +1,10 @@
 import { auth } from "@/app/lib/auth";
 import { redirect } from "next/navigation";
-import { getMyDiscussions } from "@/app/actions/discussion.actions";
-import DiscussCard from "../components/DiscussCard";
+import {
+  countMyDiscussions,
+  getMyDiscussions,
+} from "@/app/actions/discussion.actions";
+import DiscussHome from "../components/DiscussHome";
 import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -14,12 +17,13 @@ export default async function DiscussMyDiscussion() {
     redirect("/login");
   }
 
-  const myDiscussions = await getMyDiscussions(session.user.id);
+  const { discussions, nextCursor } = await getMyDiscussions(session.user.id);
+  const total = await countMyDiscussions(session.user.id);
 
   return (
     <div>
       <Label className="mb-3 text-3xl">My discussions</Label>
-      {myDiscussions.length === 0 ? (
+      {discussions.length === 0 ? (
         <Card>
           <CardContent className="p-12 text-center">
             <p className="text-gray-500 mb-4">
@@ -33,9 +37,14 @@ export default async function DiscussMyDiscussion() {
       ) : (
         <div>
           <p className="text-sm text-muted-foreground mb-4 mt-3">
-            You have {myDiscussions.length} discussion
+            You have {total} discussion
           </p>
-          <DiscussCard discussions={myDiscussions} />
+          <DiscussHome
+            discussions={discussions}
+            nextCursor={nextCursor}
+            loadMore={getMyDiscussions.bind(null, session.user.id)}
+            showOwnerActions
+          />
         </div>
       )}
     </div>
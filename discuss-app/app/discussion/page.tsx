@@ -1,13 +1,27 @@
 import DiscussHome from "./components/DiscussHome";
+import DiscussSortBar from "./components/DiscussSortBar";
 import { getDiscussions } from "../actions/discussion.actions";
+import { feedSortSchema } from "../lib/validations";
 import { Label } from "@/components/ui/label";
 
-export default async function DiscussPage() {
-  const discussions = await getDiscussions();
+export default async function DiscussPage({
+  searchParams,
+}: {
+  searchParams: { sort?: string; window?: string };
+}) {
+  const { sort, window } = feedSortSchema.parse(await searchParams);
+  const options = { sort, window };
+  const { discussions, nextCursor } = await getDiscussions(options);
+
   return (
     <div>
       <Label className="mb-3 text-3xl">Discuss</Label>
-      <DiscussHome discussions={discussions} />
+      <DiscussSortBar sort={sort} timeWindow={window} />
+      <DiscussHome
+        discussions={discussions}
+        nextCursor={nextCursor}
+        loadMore={getDiscussions.bind(null, options)}
+      />
     </div>
   );
 }
@@ -0,0 +1,120 @@
+import { searchDiscussions } from "@/app/actions/search.actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatRelativeTime } from "@/lib/dateUtils";
+import Link from "next/link";
+
+type SearchParams = {
+  q?: string;
+  author?: string;
+  tag?: string;
+  from?: string;
+  to?: string;
+};
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { q = "", author, tag, from, to } = await searchParams;
+
+  const search = q
+    ? await searchDiscussions({
+        q,
+        author: author || undefined,
+        tag: tag || undefined,
+        from: from || undefined,
+        to: to || undefined,
+      })
+    : null;
+
+  return (
+    <div>
+      <Label className="mb-3 text-3xl">Search</Label>
+      <form className="flex flex-wrap items-end gap-2 mb-4 md:w-3/4">
+        <div className="flex-1 min-w-48">
+          <Label className="mb-2">Query</Label>
+          <Input name="q" defaultValue={q} placeholder="Search discussions" />
+        </div>
+        <div>
+          <Label className="mb-2">Author</Label>
+          <Input name="author" defaultValue={author} placeholder="Any" />
+        </div>
+        <div>
+          <Label className="mb-2">Tag</Label>
+          <Input name="tag" defaultValue={tag} placeholder="Any" />
+        </div>
+        <div>
+          <Label className="mb-2">From</Label>
+          <Input name="from" type="date" defaultValue={from} />
+        </div>
+        <div>
+          <Label className="mb-2">To</Label>
+          <Input name="to" type="date" defaultValue={to} />
+        </div>
+        <Button type="submit">Search</Button>
+      </form>
+
+      {search && !search.success && (
+        <p className="text-red-500 text-sm mb-4">{search.error}</p>
+      )}
+
+      {search?.success && (
+        <p className="text-sm text-muted-foreground mb-4">
+          {search.results.length} result
+          {search.results.length === 1 ? "" : "s"} for &quot;{q}&quot;
+        </p>
+      )}
+
+      <div className="flex flex-col md:w-3/4">
+        {search?.results.map((result) => (
+          <Link
+            key={`${result.type}-${result._id}`}
+            href={`/discussion/${result.discussId}`}
+          >
+            <Card className="m-1">
+              <CardHeader className="flex justify-between">
+                <CardTitle className="text-lg">{result.title}</CardTitle>
+                <div className="flex gap-2">
+                  <Badge variant="outline">
+                    {result.type === "comment" ? "Comment" : "Discussion"}
+                  </Badge>
+                  <Badge>{result.createdBy}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <CardDescription>
+                  {result.snippet.map((part, index) =>
+                    part.highlight ? (
+                      <mark
+                        key={index}
+                        className="bg-yellow-200 dark:bg-yellow-800"
+                      >
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </CardDescription>
+                <CardDescription className="mt-2" suppressHydrationWarning>
+                  {formatRelativeTime(result.createdAt)}
+                </CardDescription>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
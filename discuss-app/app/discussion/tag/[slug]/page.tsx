@@ -0,0 +1,23 @@
+import { getDiscussions } from "@/app/actions/discussion.actions";
+import { Label } from "@/components/ui/label";
+import DiscussHome from "../../components/DiscussHome";
+
+export default async function TagPage({
+  params,
+}: {
+  params: { slug: string };
+}) {
+  const { slug } = await params;
+  const { discussions, nextCursor } = await getDiscussions({ tag: slug });
+
+  return (
+    <div>
+      <Label className="mb-3 text-3xl">#{slug}</Label>
+      <DiscussHome
+        discussions={discussions}
+        nextCursor={nextCursor}
+        loadMore={getDiscussions.bind(null, { tag: slug })}
+      />
+    </div>
+  );
+}
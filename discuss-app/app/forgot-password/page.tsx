@@ -0,0 +1,98 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import Link from "next/link";
+import { useState } from "react";
+import { requestPasswordReset } from "../actions/auth.actions";
+
+export default function Page() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [isSent, setIsSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    setIsSending(true);
+
+    try {
+      const result = await requestPasswordReset(email);
+      if (result.success) {
+        setIsSent(true);
+      } else {
+        setError(result.error || "Failed to send reset link");
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <Card>
+          <CardHeader>
+            <CardTitle>Forgot your password?</CardTitle>
+            <CardDescription>
+              Enter your email and we&apos;ll send you a link to reset it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+                {error}
+              </div>
+            )}
+            {isSent ? (
+              <FieldDescription>
+                If an account exists for {email}, a reset link is on its way.
+                Check your inbox. <Link href="/login">Back to login</Link>
+              </FieldDescription>
+            ) : (
+              <form onSubmit={handleSubmit}>
+                <FieldGroup>
+                  <Field>
+                    <FieldLabel>Email</FieldLabel>
+                    <Input
+                      type="email"
+                      placeholder="user@example.com"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                    />
+                  </Field>
+
+                  <Field>
+                    <Button type="submit" disabled={isSending}>
+                      {isSending ? "Sending..." : "Send reset link"}
+                    </Button>
+                    <FieldDescription className="text-center">
+                      Remembered it? <Link href="/login">Back to login</Link>
+                    </FieldDescription>
+                  </Field>
+                </FieldGroup>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
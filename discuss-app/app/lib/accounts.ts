@@ -0,0 +1,104 @@
+import DiscussAccount from "../model/DiscussAccount";
+import DiscussUser from "../model/DiscussUser";
+import connectDB from "./mongodb";
+import { revokeAllSessions } from "./sessions";
+
+export type OAuthIdentity = {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  name: string;
+  image: string | null;
+};
+
+// Someone proved they own the address of an account that was never
+// verified. Whoever registered it may not be them, so the password they set
+// stops working and anyone signed in with it is signed out.
+export async function claimUnverifiedAccount(userId: string) {
+  await connectDB();
+  await DiscussUser.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        emailVerified: new Date(),
+        emailVerificationToken: null,
+        emailVerificationExpires: null,
+      },
+      $unset: { password: 1 },
+    }
+  );
+  await revokeAllSessions(userId);
+}
+
+// Finds the user an OAuth identity belongs to: an existing link first, then
+// an account with the same (provider-verified) email, otherwise a new user.
+export async function resolveOAuthUser(identity: OAuthIdentity) {
+  await connectDB();
+
+  const linked = await DiscussAccount.findOne({
+    provider: identity.provider,
+    providerAccountId: identity.providerAccountId,
+  });
+  if (linked) {
+    const user = await DiscussUser.findById(linked.userId);
+    if (user) {
+      return user;
+    }
+  }
+
+  let user = await DiscussUser.findOne({ email: identity.email }).collation({
+    locale: "en",
+    strength: 2,
+  });
+  if (user) {
+    if (user.emailVerified === null) {
+      await claimUnverifiedAccount(user._id.toString());
+      user = await DiscussUser.findById(user._id);
+    }
+  } else {
+    user = await DiscussUser.create({
+      email: identity.email,
+      fullName: identity.name.slice(0, 30),
+      image: identity.image,
+      emailVerified: new Date(),
+    });
+  }
+
+  await DiscussAccount.updateOne(
+    {
+      provider: identity.provider,
+      providerAccountId: identity.providerAccountId,
+    },
+    { $set: { userId: user._id, email: identity.email } },
+    { upsert: true }
+  );
+  return user;
+}
+
+// Returns false when the provider account already belongs to someone else.
+export async function linkOAuthAccount(
+  userId: string,
+  identity: OAuthIdentity
+) {
+  await connectDB();
+
+  const existing = await DiscussAccount.findOne({
+    provider: identity.provider,
+    providerAccountId: identity.providerAccountId,
+  });
+  if (existing) {
+    return existing.userId.toString() === userId;
+  }
+
+  await DiscussAccount.updateOne(
+    { userId, provider: identity.provider },
+    {
+      $set: {
+        providerAccountId: identity.providerAccountId,
+        email: identity.email,
+      },
+    },
+    { upsert: true }
+  );
+  return true;
+}
@@ -1,10 +1,67 @@
 import connectDB from "./mongodb";
 import DiscussUser from "../model/DiscussUser";
-import NextAuth from "next-auth";
+import NextAuth, { CredentialsSignin } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
+import type { EmailConfig } from "next-auth/providers/email";
+import Google from "next-auth/providers/google";
 import bcrypt from "bcryptjs";
+import { cookies } from "next/headers";
+import { linkOAuthAccount, resolveOAuthUser } from "./accounts";
+import { authErrorCodes } from "./authErrors";
+import { LINK_INTENT_COOKIE } from "./oauth";
+import { getRequestInfo } from "./request";
+import { discussAdapter, toSessionUser } from "./authAdapter";
+import {
+  clearLoginFailures,
+  isLoginBlocked,
+  recordLoginFailure,
+} from "./loginThrottle";
+import { absoluteUrl, sendMail } from "./mailer";
+import {
+  createSessionRecord,
+  endSession,
+  getActiveSessionUser,
+  SESSION_MAX_AGE,
+} from "./sessions";
+import { getSiteSettings } from "./siteSettings";
+import { createTwoFactorNonce, verifyTwoFactorProof } from "./twoFactor";
 
-export const { handlers, auth } = NextAuth({
+class EmailNotVerifiedError extends CredentialsSignin {
+  code = authErrorCodes.emailNotVerified;
+}
+
+class TooManyAttemptsError extends CredentialsSignin {
+  code = authErrorCodes.tooManyAttempts;
+}
+
+// Compared against when the email has no account (or no password), so a
+// miss takes as long as a wrong password.
+const TIMING_HASH =
+  "$2b$12$pgXDgKtTgFuQmTai2e/PQ.THTu2EihtgRdpgzR8sopUPcpjRBPnSW";
+
+const MAGIC_LINK_MAX_AGE = 15 * 60;
+
+const MagicLink: EmailConfig = {
+  id: "email",
+  type: "email",
+  name: "Email",
+  maxAge: MAGIC_LINK_MAX_AGE,
+  async sendVerificationRequest({ identifier, url }) {
+    // The email points at a confirmation page rather than the callback
+    // itself, so mail scanners that prefetch links can't use up the token.
+    const { search } = new URL(url);
+    await sendMail({
+      to: identifier,
+      subject: "Your sign-in link",
+      text: `Open this link to sign in:\n\n${absoluteUrl(
+        `/login/magic-link${search}`
+      )}\n\nThe link expires in 15 minutes and can only be used once. If you didn't ask to sign in, you can ignore this email.`,
+    });
+  },
+};
+
+export const { handlers, auth, unstable_update } = NextAuth({
+  adapter: discussAdapter(),
   providers: [
     Credentials({
       name: "Credentials",
@@ -17,56 +74,170 @@ export const { handlers, auth } = NextAuth({
           return null;
         }
 
-        await connectDB();
+        const email = credentials.email as string;
+        const { ip } = await getRequestInfo();
+        if (await isLoginBlocked(email, ip)) {
+          throw new TooManyAttemptsError();
+        }
 
-        const discussUser = await DiscussUser.findOne({
-          email: credentials.email,
-        });
+        await connectDB();
 
-        if (!discussUser) {
-          throw new Error("Invalid credentials");
-        }
+        const discussUser = await DiscussUser.findOne({ email });
 
+        // OAuth-only accounts have no password to compare against.
         const isValid = await bcrypt.compare(
           credentials.password as string,
-          discussUser.password
+          discussUser?.password || TIMING_HASH
         );
-        if (!isValid) {
-          throw new Error("Invalid credentials");
+        if (!discussUser?.password || !isValid) {
+          await recordLoginFailure(email, ip);
+          return null;
+        }
+        await clearLoginFailures(email);
+        if (discussUser.emailVerified === null) {
+          throw new EmailNotVerifiedError();
         }
 
-        return {
-          id: discussUser._id.toString(),
-          email: discussUser.email,
-          name: discussUser.fullName,
-        };
+        return toSessionUser(discussUser);
       },
     }),
+    Google,
+    MagicLink,
   ],
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile }) {
+      if (account?.type !== "oauth" && account?.type !== "oidc") {
+        return true;
+      }
+      if (!profile?.email || profile.email_verified !== true) {
+        return `/login?error=${authErrorCodes.oauthEmailNotVerified}`;
+      }
+
+      const identity = {
+        provider: account.provider,
+        providerAccountId: account.providerAccountId,
+        email: profile.email.toLowerCase(),
+        name: profile.name || profile.email,
+        image: user.image ?? null,
+      };
+
+      // Connecting from settings: attach the account to whoever is signed
+      // in and keep their current session.
+      const cookieStore = await cookies();
+      if (cookieStore.has(LINK_INTENT_COOKIE)) {
+        cookieStore.delete(LINK_INTENT_COOKIE);
+        const session = await auth();
+        if (session?.user?.id) {
+          const linked = await linkOAuthAccount(session.user.id, identity);
+          return linked
+            ? "/settings"
+            : `/settings?error=${authErrorCodes.accountInUse}`;
+        }
+      }
+
+      // NextAuth then finds the user through the adapter's account lookup.
+      await resolveOAuthUser(identity);
+      return true;
+    },
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         token.id = user.id;
         token.email = user.email;
         token.name = user.name;
+        token.picture = user.image;
+        token.role = user.role;
+        token.twoFactorNonce = user.twoFactorPending
+          ? createTwoFactorNonce()
+          : null;
+        token.twoFactorSetupRequired = user.twoFactorSetupRequired;
+        token.tokenVersion = user.tokenVersion ?? 0;
+        token.sid = await createSessionRecord(user.id as string);
+      } else {
+        const sessionUser =
+          token.id && token.sid
+            ? await getActiveSessionUser(
+                token.id,
+                token.sid,
+                token.tokenVersion ?? 0
+              )
+            : null;
+        if (!sessionUser) {
+          // Revoked from settings, signed out everywhere, or issued before
+          // sessions were tracked. Returning null clears the cookie.
+          return null;
+        }
+        // Re-read on every request so role changes and the site's
+        // two-factor policy reach sessions that are already open.
+        const { requireTwoFactor } = await getSiteSettings();
+        token.role = sessionUser.role;
+        token.twoFactorSetupRequired =
+          requireTwoFactor && !sessionUser.twoFactorEnabled;
+      }
+      // The update payload can come from the client, so reload the profile
+      // instead of trusting it. The only thing taken from it is the signed
+      // proof that the second factor was checked.
+      if (trigger === "update" && token.id) {
+        if (
+          token.twoFactorNonce &&
+          verifyTwoFactorProof(
+            token.id,
+            token.twoFactorNonce,
+            session?.twoFactorProof
+          )
+        ) {
+          token.twoFactorNonce = null;
+        }
+
+        await connectDB();
+        const discussUser = await DiscussUser.findById(token.id);
+        if (discussUser) {
+          token.email = discussUser.email;
+          token.name = discussUser.fullName;
+          token.picture = discussUser.image;
+        }
       }
       return token;
     },
     async session({ session, token }) {
       if (token) {
-        session.user.id = token.id as string;
+        // Until the second factor is checked the session has no user id, so
+        // every page and action treats it as signed out.
+        if (token.twoFactorNonce) {
+          session.twoFactor = {
+            userId: token.id as string,
+            nonce: token.twoFactorNonce,
+          };
+        } else if (token.twoFactorSetupRequired) {
+          // Likewise while the site requires two-factor and it isn't set
+          // up yet: only the setup actions get to know who this is.
+          session.twoFactorSetup = { userId: token.id as string };
+        } else {
+          session.user.id = token.id as string;
+        }
         session.user.email = token.email as string;
         session.user.name = token.name as string;
+        session.user.image = token.picture ?? null;
+        session.user.role = token.role ?? "user";
+        session.twoFactorSetupRequired = token.twoFactorSetupRequired;
+        session.sessionId = token.sid;
       }
       return session;
     },
   },
+  events: {
+    async signOut(message) {
+      if ("token" in message && message.token?.sid) {
+        await endSession(message.token.sid);
+      }
+    },
+  },
   session: {
     strategy: "jwt",
-    maxAge: 30 * 24 * 60 * 60,
+    maxAge: SESSION_MAX_AGE,
     updateAge: 24 * 60 * 60,
   },
   pages: {
     signIn: "/login",
+    error: "/login",
   },
 });
@@ -0,0 +1,142 @@
+import mongoose from "mongoose";
+import type { Adapter, AdapterUser } from "next-auth/adapters";
+import DiscussAccount from "../model/DiscussAccount";
+import DiscussUser from "../model/DiscussUser";
+import DiscussVerificationToken from "../model/DiscussVerificationToken";
+import { claimUnverifiedAccount } from "./accounts";
+import connectDB from "./mongodb";
+import { getSiteSettings } from "./siteSettings";
+
+type DiscussUserRecord = {
+  _id: { toString(): string };
+  email: string;
+  fullName: string;
+  image?: string | null;
+  emailVerified?: Date | null;
+  role?: "user" | "admin";
+  twoFactorEnabled?: boolean;
+  tokenVersion?: number;
+};
+
+// Shared by every provider so the second factor can't be skipped by signing
+// in a different way.
+export async function toSessionUser(
+  discussUser: DiscussUserRecord
+): Promise<AdapterUser> {
+  const { requireTwoFactor } = await getSiteSettings();
+  return {
+    id: discussUser._id.toString(),
+    email: discussUser.email,
+    name: discussUser.fullName,
+    image: discussUser.image ?? null,
+    emailVerified: discussUser.emailVerified ?? null,
+    role: discussUser.role ?? "user",
+    tokenVersion: discussUser.tokenVersion ?? 0,
+    twoFactorPending: Boolean(discussUser.twoFactorEnabled),
+    twoFactorSetupRequired: requireTwoFactor && !discussUser.twoFactorEnabled,
+  };
+}
+
+async function findUser(filter: Record<string, unknown>) {
+  await connectDB();
+  const discussUser = await DiscussUser.findOne(filter).collation({
+    locale: "en",
+    strength: 2,
+  });
+  return discussUser ? toSessionUser(discussUser) : null;
+}
+
+// Names new magic-link accounts after their mailbox until they pick a name
+// in settings, e.g. "jane.doe@example.com" becomes "jane.doe".
+function nameFromEmail(email: string) {
+  const local = email.split("@")[0];
+  return (local.length >= 3 ? local : email).slice(0, 30);
+}
+
+// Backs NextAuth with the existing collections. JWT sessions mean the
+// session methods are never called; the email provider needs the
+// verification token methods, and OAuth sign-ins go through the account
+// lookups after our signIn callback has already resolved and linked the user.
+export function discussAdapter(): Adapter {
+  return {
+    async createUser(user) {
+      await connectDB();
+      const discussUser = await DiscussUser.create({
+        email: user.email,
+        fullName: nameFromEmail(user.email),
+        emailVerified: user.emailVerified,
+      });
+      return toSessionUser(discussUser);
+    },
+    async getUser(id) {
+      if (!mongoose.isValidObjectId(id)) {
+        return null;
+      }
+      return findUser({ _id: id });
+    },
+    async getUserByEmail(email) {
+      return findUser({ email });
+    },
+    async getUserByAccount({ provider, providerAccountId }) {
+      await connectDB();
+      const account = await DiscussAccount.findOne({
+        provider,
+        providerAccountId,
+      });
+      return account ? findUser({ _id: account.userId }) : null;
+    },
+    // Only called by the email provider, to mark the address verified once
+    // a magic link has been used.
+    async updateUser({ id, emailVerified }) {
+      await connectDB();
+      const existing = await DiscussUser.findById(id);
+      if (!existing) {
+        throw new Error("User not found");
+      }
+      if (existing.emailVerified === null) {
+        await claimUnverifiedAccount(id);
+      } else if (emailVerified !== undefined) {
+        await DiscussUser.updateOne({ _id: id }, { emailVerified });
+      }
+      const discussUser = await DiscussUser.findById(id);
+      return toSessionUser(discussUser);
+    },
+    async linkAccount(account) {
+      await connectDB();
+      const discussUser = await DiscussUser.findById(account.userId);
+      if (!discussUser) {
+        throw new Error("User not found");
+      }
+      await DiscussAccount.updateOne(
+        { userId: discussUser._id, provider: account.provider },
+        {
+          $set: {
+            providerAccountId: account.providerAccountId,
+            email: discussUser.email,
+          },
+        },
+        { upsert: true }
+      );
+    },
+    async createVerificationToken(verificationToken) {
+      await connectDB();
+      await DiscussVerificationToken.create(verificationToken);
+      return verificationToken;
+    },
+    // Deleting on lookup makes each link single use.
+    async useVerificationToken({ identifier, token }) {
+      await connectDB();
+      const verificationToken = await DiscussVerificationToken.findOneAndDelete(
+        { token, ...(identifier && { identifier }) }
+      ).lean();
+      if (!verificationToken) {
+        return null;
+      }
+      return {
+        identifier: verificationToken.identifier,
+        token: verificationToken.token,
+        expires: verificationToken.expires,
+      };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// Codes passed from `authorize` to the login page through NextAuth's
+// CredentialsSignin error. They end up in URLs, so keep them free of
+// anything that reveals whether an account exists.
+export const authErrorCodes = {
+  emailNotVerified: "email_not_verified",
+  oauthEmailNotVerified: "oauth_email_not_verified",
+  accountInUse: "account_in_use",
+  tooManyAttempts: "too_many_attempts",
+} as const;
+
+const authErrorMessages: Record<string, string> = {
+  [authErrorCodes.oauthEmailNotVerified]:
+    "Your Google email address isn't verified, so it can't be used to sign in",
+  [authErrorCodes.accountInUse]:
+    "That Google account is already connected to another user",
+  OAuthAccountNotLinked: "That account is already connected to another user",
+  AccessDenied: "Sign in was cancelled or denied",
+  Verification: "That sign-in link has expired or was already used",
+};
+
+// Turns the `error` search param NextAuth (or our signIn callback) redirects
+// with into something to show the user.
+export function authErrorMessage(error: string | undefined) {
+  if (!error) {
+    return "";
+  }
+  return authErrorMessages[error] ?? "Something went wrong. Please try again.";
+}
@@ -0,0 +1,45 @@
+export const avatarSizes = [32, 64, 128, 256] as const;
+
+export type AvatarSize = (typeof avatarSizes)[number];
+
+const uploadedAvatar = /-(\d+)\.webp$/;
+
+// Uploaded avatars are stored once per size with the size in the file name;
+// any other image URL (e.g. from an OAuth provider) is used as is.
+export function avatarSrc(image: string, size: AvatarSize) {
+  return uploadedAvatar.test(image)
+    ? image.replace(uploadedAvatar, `-${size}.webp`)
+    : image;
+}
+
+export function initials(name: string) {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return "?";
+  }
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : "";
+  return (first + last).toUpperCase();
+}
+
+const fallbackColors = [
+  "bg-red-200 text-red-900",
+  "bg-orange-200 text-orange-900",
+  "bg-amber-200 text-amber-900",
+  "bg-lime-200 text-lime-900",
+  "bg-emerald-200 text-emerald-900",
+  "bg-cyan-200 text-cyan-900",
+  "bg-blue-200 text-blue-900",
+  "bg-violet-200 text-violet-900",
+  "bg-pink-200 text-pink-900",
+];
+
+// Picks a stable colour per name so the same user always gets the same
+// fallback avatar.
+export function fallbackColor(name: string) {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return fallbackColors[Math.abs(hash) % fallbackColors.length];
+}
@@ -0,0 +1,27 @@
+import sharp from "sharp";
+import { avatarSizes } from "./avatar";
+
+export const AVATAR_MAX_BYTES = 5 * 1024 * 1024;
+
+export const avatarContentTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+];
+
+// Crops to a centred square and re-encodes every size as WebP. Re-encoding
+// also strips metadata such as GPS coordinates from uploaded photos.
+export async function resizeAvatar(input: Buffer) {
+  const image = sharp(input, { animated: false }).rotate();
+  return Promise.all(
+    avatarSizes.map(async (size) => ({
+      size,
+      data: await image
+        .clone()
+        .resize(size, size, { fit: "cover" })
+        .webp({ quality: 85 })
+        .toBuffer(),
+    }))
+  );
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearLoginFailures,
+  clearTwoFactorFailures,
+  isLoginBlocked,
+  isTwoFactorBlocked,
+  LOCKOUT_THRESHOLD,
+  recordLoginFailure,
+  recordTwoFactorFailure,
+} from "./loginThrottle";
+import { sendMail } from "./mailer";
+import { memoryRateLimitStore, setRateLimitStore } from "./rateLimit";
+
+vi.mock("./mongodb", () => ({ default: vi.fn() }));
+vi.mock("./mailer", () => ({
+  absoluteUrl: (path: string) => `http://localhost${path}`,
+  sendMail: vi.fn(),
+}));
+vi.mock("../model/DiscussUser", () => ({
+  default: {
+    findOne: vi.fn(async ({ email }: { email: string }) =>
+      email === "known@example.com" ? { _id: "user-1", email } : null
+    ),
+    updateOne: vi.fn(),
+  },
+}));
+
+async function fail(times: number, email: string, ip = "") {
+  for (let i = 0; i < times; i++) {
+    await recordLoginFailure(email, ip);
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.clearAllMocks();
+  setRateLimitStore(memoryRateLimitStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("login throttle", () => {
+  it("slows down an address after three failures", async () => {
+    await fail(3, "someone@example.com");
+    expect(await isLoginBlocked("someone@example.com", "")).toBe(false);
+
+    await fail(1, "someone@example.com");
+    expect(await isLoginBlocked("someone@example.com", "")).toBe(true);
+  });
+
+  it("counts addresses case-insensitively", async () => {
+    await fail(4, "Someone@Example.com");
+    expect(await isLoginBlocked("someone@example.com", "")).toBe(true);
+  });
+
+  it("blocks an IP cycling through addresses", async () => {
+    for (let i = 0; i < 21; i++) {
+      await recordLoginFailure(`user${i}@example.com`, "203.0.113.7");
+    }
+    expect(await isLoginBlocked("fresh@example.com", "203.0.113.7")).toBe(true);
+    expect(await isLoginBlocked("fresh@example.com", "")).toBe(false);
+  });
+
+  it("pauses the account and mails an unlock link at the threshold", async () => {
+    await fail(LOCKOUT_THRESHOLD, "known@example.com");
+
+    expect(sendMail).toHaveBeenCalledOnce();
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "known@example.com" })
+    );
+    vi.advanceTimersByTime(14 * 60 * 1000);
+    expect(await isLoginBlocked("known@example.com", "")).toBe(true);
+  });
+
+  it("doesn't mail addresses without an account", async () => {
+    await fail(LOCKOUT_THRESHOLD, "nobody@example.com");
+    expect(sendMail).not.toHaveBeenCalled();
+    expect(await isLoginBlocked("nobody@example.com", "")).toBe(true);
+  });
+
+  it("lets the address in again once cleared", async () => {
+    await fail(LOCKOUT_THRESHOLD, "nobody@example.com");
+    await clearLoginFailures("nobody@example.com");
+    expect(await isLoginBlocked("nobody@example.com", "")).toBe(false);
+  });
+});
+
+describe("two-factor throttle", () => {
+  it("blocks a user after five wrong codes until cleared", async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordTwoFactorFailure("user-1");
+    }
+    expect(await isTwoFactorBlocked("user-1")).toBe(false);
+
+    await recordTwoFactorFailure("user-1");
+    expect(await isTwoFactorBlocked("user-1")).toBe(true);
+    expect(await isTwoFactorBlocked("user-2")).toBe(false);
+
+    await clearTwoFactorFailures("user-1");
+    expect(await isTwoFactorBlocked("user-1")).toBe(false);
+  });
+});
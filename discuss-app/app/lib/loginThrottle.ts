@@ -0,0 +1,112 @@
+import DiscussUser from "../model/DiscussUser";
+import { absoluteUrl, sendMail } from "./mailer";
+import connectDB from "./mongodb";
+import {
+  BackoffPolicy,
+  clearFailures,
+  getRateLimitStore,
+  isBlocked,
+  recordFailure,
+} from "./rateLimit";
+import { createToken } from "./tokens";
+
+const emailPolicy: BackoffPolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+// Looser than the per-email policy since several people can share an IP,
+// but it stops one client from cycling through many addresses.
+const ipPolicy: BackoffPolicy = {
+  freeAttempts: 20,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+// Six-digit codes are guessable without a limit, so the second factor gets
+// its own counter per user.
+const twoFactorPolicy: BackoffPolicy = {
+  freeAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+export const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const UNLOCK_TTL_MS = 60 * 60 * 1000;
+
+const emailKey = (email: string) => `login:email:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `login:ip:${ip}`;
+const twoFactorKey = (userId: string) => `login:2fa:${userId}`;
+
+// Addresses are tracked whether or not they have an account, so a lockout
+// doesn't reveal which ones exist.
+export async function isLoginBlocked(email: string, ip: string) {
+  const [emailBlocked, ipBlocked] = await Promise.all([
+    isBlocked(emailKey(email)),
+    ip ? isBlocked(ipKey(ip)) : false,
+  ]);
+  return emailBlocked || ipBlocked;
+}
+
+export async function recordLoginFailure(email: string, ip: string) {
+  const [failures] = await Promise.all([
+    recordFailure(emailKey(email), emailPolicy),
+    ip ? recordFailure(ipKey(ip), ipPolicy) : 0,
+  ]);
+
+  if (failures === LOCKOUT_THRESHOLD) {
+    await getRateLimitStore().block(
+      emailKey(email),
+      new Date(Date.now() + LOCKOUT_MS)
+    );
+    await sendUnlockEmail(email);
+  }
+}
+
+export async function clearLoginFailures(email: string) {
+  await clearFailures(emailKey(email));
+}
+
+export async function isTwoFactorBlocked(userId: string) {
+  return isBlocked(twoFactorKey(userId));
+}
+
+export async function recordTwoFactorFailure(userId: string) {
+  await recordFailure(twoFactorKey(userId), twoFactorPolicy);
+}
+
+export async function clearTwoFactorFailures(userId: string) {
+  await clearFailures(twoFactorKey(userId));
+}
+
+async function sendUnlockEmail(email: string) {
+  await connectDB();
+  const user = await DiscussUser.findOne({ email });
+  if (!user) {
+    return;
+  }
+
+  const { token, hash } = createToken();
+  await DiscussUser.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        unlockToken: hash,
+        unlockExpires: new Date(Date.now() + UNLOCK_TTL_MS),
+      },
+    }
+  );
+
+  await sendMail({
+    to: user.email,
+    subject: "Sign-in to your account was paused",
+    text: `There were ${LOCKOUT_THRESHOLD} failed attempts to sign in to your account, so sign-in is paused for 15 minutes. If that was you, open this link to sign in again right away:\n\n${absoluteUrl(
+      `/unlock-account?token=${token}`
+    )}\n\nIf it wasn't you, someone may be guessing your password. Consider changing it once you're back in.`,
+  });
+}
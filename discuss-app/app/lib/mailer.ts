@@ -0,0 +1,110 @@
+import { mkdir, writeFile } from "fs/promises";
+import nodemailer from "nodemailer";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = "Discuss <no-reply@localhost>";
+
+const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(
+      `[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`
+    );
+  },
+};
+
+function smtpTransport(url: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+// Writes each message as an .eml file, which most mail clients can open.
+function fileTransport(dir: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+      await mkdir(dir, { recursive: true });
+      const id = info.messageId.replace(/[<>]/g, "");
+      const file = path.join(dir, `${Date.now()}-${id}.eml`);
+      await writeFile(file, info.message);
+      console.log(`[mail] Wrote ${file}`);
+    },
+  };
+}
+
+// MAIL_TRANSPORT picks the transport explicitly; otherwise SMTP is used when
+// SMTP_URL is set and messages are written to disk in development. Outside
+// development there is no fallback: the console would put sign-in and reset
+// links in the server logs.
+function defaultTransportKind() {
+  if (process.env.SMTP_URL) {
+    return "smtp";
+  }
+  if (process.env.NODE_ENV === "development") {
+    return "file";
+  }
+  throw new Error(
+    "No mail transport configured: set SMTP_URL, or MAIL_TRANSPORT=console or file"
+  );
+}
+
+function createMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM ?? defaultFrom;
+  const kind = process.env.MAIL_TRANSPORT ?? defaultTransportKind();
+
+  switch (kind) {
+    case "smtp":
+      if (!process.env.SMTP_URL) {
+        throw new Error("SMTP_URL must be set to send mail over SMTP");
+      }
+      return smtpTransport(process.env.SMTP_URL, from);
+    case "file":
+      return fileTransport(
+        process.env.MAIL_DIR ?? path.join(process.cwd(), ".mail"),
+        from
+      );
+    case "console":
+      return consoleTransport;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport() {
+  transport ??= createMailTransport();
+  return transport;
+}
+
+export function setMailTransport(mailTransport: MailTransport) {
+  transport = mailTransport;
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send(message);
+}
+
+export function absoluteUrl(pathname: string) {
+  const base =
+    process.env.AUTH_URL ?? process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+  return new URL(pathname, base).toString();
+}
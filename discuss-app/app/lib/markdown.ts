@@ -0,0 +1,43 @@
+import { toString } from "mdast-util-to-string";
+import rehypeHighlight from "rehype-highlight";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+
+// Sanitize before highlighting: the highlighter only adds its own spans, so
+// user-supplied HTML never reaches the output unsanitized.
+const htmlProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype)
+  .use(rehypeSanitize)
+  .use(rehypeHighlight, { detect: false })
+  .use(rehypeStringify);
+
+const textProcessor = unified().use(remarkParse).use(remarkGfm);
+
+export async function renderMarkdown(source: string) {
+  const file = await htmlProcessor.process(source);
+  return String(file);
+}
+
+export function markdownExcerpt(source: string, maxLength = 200) {
+  const tree = textProcessor.parse(source);
+  const text = tree.children
+    .filter((node) => node.type !== "code")
+    .map((node) => toString(node))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${cut.slice(0, lastSpace > 0 ? lastSpace : maxLength)}…`;
+}
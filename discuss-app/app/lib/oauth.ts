@@ -0,0 +1,10 @@
+export const oauthProviders = {
+  google: "Google",
+} as const;
+
+export type OAuthProvider = keyof typeof oauthProviders;
+
+// Set by the settings page right before it starts an OAuth sign-in, so the
+// signIn callback knows to attach the account to the signed-in user instead
+// of logging in.
+export const LINK_INTENT_COOKIE = "discuss.link-intent";
@@ -0,0 +1,119 @@
+import mongoose from "mongoose";
+
+type CursorDoc = {
+  _id: mongoose.Types.ObjectId | string;
+  createdAt: Date;
+};
+
+export function encodeCursor(doc: CursorDoc) {
+  return Buffer.from(
+    JSON.stringify([doc.createdAt.toISOString(), doc._id.toString()])
+  ).toString("base64url");
+}
+
+export function decodeCursor(cursor: string) {
+  try {
+    const [createdAt, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    );
+    const date = new Date(createdAt);
+    if (Number.isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) {
+      return null;
+    }
+    return { createdAt: date, _id: new mongoose.Types.ObjectId(id as string) };
+  } catch {
+    return null;
+  }
+}
+
+// Keyset filter on (createdAt, _id): documents strictly after the cursor in
+// the given sort direction. Ties on createdAt are broken by _id.
+export function cursorFilter(cursor: string | undefined, direction: 1 | -1) {
+  const decoded = cursor ? decodeCursor(cursor) : null;
+  if (!decoded) {
+    return {};
+  }
+
+  const op = direction === 1 ? "$gt" : "$lt";
+  return {
+    $or: [
+      { createdAt: { [op]: decoded.createdAt } },
+      { createdAt: decoded.createdAt, _id: { [op]: decoded._id } },
+    ],
+  };
+}
+
+// Expects `limit + 1` documents so the presence of a next page can be
+// detected without a second count query.
+export function paginate<T extends CursorDoc>(docs: T[], limit: number) {
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+  return {
+    page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+type ScoredDoc<K extends string> = {
+  _id: mongoose.Types.ObjectId | string;
+} & Record<K, number>;
+
+type ScoreCursor = {
+  score: number;
+  _id: mongoose.Types.ObjectId;
+  now: number;
+};
+
+// Score cursors also carry the time the first page was ranked at, so
+// time-decayed scores and time windows stay stable while the user keeps
+// scrolling.
+export function decodeScoreCursor(cursor: string): ScoreCursor | null {
+  try {
+    const [score, id, now] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    );
+    if (
+      typeof score !== "number" ||
+      typeof now !== "number" ||
+      !mongoose.isValidObjectId(id)
+    ) {
+      return null;
+    }
+    return { score, _id: new mongoose.Types.ObjectId(id as string), now };
+  } catch {
+    return null;
+  }
+}
+
+// Keyset filter on (field, _id), both descending.
+export function scoreCursorFilter(cursor: ScoreCursor | null, field: string) {
+  if (!cursor) {
+    return {};
+  }
+
+  return {
+    $or: [
+      { [field]: { $lt: cursor.score } },
+      { [field]: cursor.score, _id: { $lt: cursor._id } },
+    ],
+  };
+}
+
+export function paginateByScore<K extends string, T extends ScoredDoc<K>>(
+  docs: T[],
+  limit: number,
+  now: number,
+  field: K
+) {
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+  const last = page[page.length - 1];
+  return {
+    page,
+    nextCursor: hasMore
+      ? Buffer.from(
+          JSON.stringify([last[field], last._id.toString(), now])
+        ).toString("base64url")
+      : null,
+  };
+}
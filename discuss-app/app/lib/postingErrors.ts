@@ -0,0 +1,37 @@
+// Codes returned by addDiscussion/addComment when app/lib/postingLimits.ts
+// turns a post away, so the forms can tell them apart from other failures.
+export const postingErrorCodes = {
+  rateLimited: "rate_limited",
+  duplicate: "duplicate",
+  tooManyLinks: "too_many_links",
+} as const;
+
+export type PostingErrorCode =
+  (typeof postingErrorCodes)[keyof typeof postingErrorCodes];
+
+export type PostingError = {
+  success: false;
+  error: string;
+  code: PostingErrorCode;
+  // Seconds until a rate-limited user can post again.
+  retryAfter?: number;
+};
+
+const postingErrorTitles: Record<PostingErrorCode, string> = {
+  [postingErrorCodes.rateLimited]: "Slow down",
+  [postingErrorCodes.duplicate]: "Already posted",
+  [postingErrorCodes.tooManyLinks]: "Too many links",
+};
+
+export function postingErrorTitle(code: PostingErrorCode) {
+  return postingErrorTitles[code];
+}
+
+export function isPostingError(result: unknown): result is PostingError {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "code" in result &&
+    Object.values(postingErrorCodes).includes((result as PostingError).code)
+  );
+}
@@ -0,0 +1,138 @@
+import DiscussComment from "../model/DiscussComment";
+import DiscussDiscussion from "../model/DiscussDiscussion";
+import DiscussUser from "../model/DiscussUser";
+import { auth } from "./auth";
+import connectDB from "./mongodb";
+import { PostingError, postingErrorCodes } from "./postingErrors";
+import { consumeBudget } from "./rateLimit";
+
+export type PostingAction = "discussion" | "comment";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const budgets: Record<
+  PostingAction,
+  { limit: number; windowMs: number; label: string }
+> = {
+  discussion: { limit: 5, windowMs: HOUR_MS, label: "discussions an hour" },
+  comment: { limit: 5, windowMs: MINUTE_MS, label: "comments a minute" },
+};
+
+// How far back, and how many posts, a new post is compared against.
+const DUPLICATE_WINDOW_MS = DAY_MS;
+const DUPLICATE_LOOKBACK = 20;
+
+// Accounts younger than this may only include a few links per post.
+const NEW_ACCOUNT_MS = 7 * DAY_MS;
+const NEW_ACCOUNT_MAX_LINKS = 2;
+
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\./gi;
+
+function normalize(content: string) {
+  return content.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function countLinks(content: string) {
+  return content.match(LINK_PATTERN)?.length ?? 0;
+}
+
+function formatWait(ms: number) {
+  const minutes = Math.ceil(ms / MINUTE_MS);
+  if (minutes <= 1) {
+    const seconds = Math.max(1, Math.ceil(ms / 1000));
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  return `${minutes} minutes`;
+}
+
+async function isDuplicate(
+  action: PostingAction,
+  userId: string,
+  content: string
+) {
+  const Model = action === "discussion" ? DiscussDiscussion : DiscussComment;
+  const recent = await Model.find({
+    userId,
+    createdAt: { $gte: new Date(Date.now() - DUPLICATE_WINDOW_MS) },
+  })
+    .sort({ createdAt: -1 })
+    .limit(DUPLICATE_LOOKBACK)
+    .select("description")
+    .lean();
+
+  const normalized = normalize(content);
+  return recent.some(
+    (post: { description: string }) =>
+      normalize(post.description) === normalized
+  );
+}
+
+async function checkPost(
+  action: PostingAction,
+  userId: string,
+  content: string
+): Promise<PostingError | null> {
+  const budget = budgets[action];
+  const { allowed, resetAt } = await consumeBudget(
+    `post:${action}:${userId}`,
+    budget.limit,
+    budget.windowMs
+  );
+  if (!allowed) {
+    const wait = Math.max(0, resetAt.getTime() - Date.now());
+    return {
+      success: false,
+      code: postingErrorCodes.rateLimited,
+      error: `You can post up to ${budget.limit} ${budget.label}. Try again in ${formatWait(wait)}.`,
+      retryAfter: Math.ceil(wait / 1000),
+    };
+  }
+
+  if (await isDuplicate(action, userId, content)) {
+    return {
+      success: false,
+      code: postingErrorCodes.duplicate,
+      error: `You already posted this ${action} recently.`,
+    };
+  }
+
+  if (countLinks(content) > NEW_ACCOUNT_MAX_LINKS) {
+    const user = await DiscussUser.findById(userId).select("createdAt").lean();
+    const isNewAccount =
+      user?.createdAt && Date.now() - user.createdAt.getTime() < NEW_ACCOUNT_MS;
+    if (isNewAccount) {
+      return {
+        success: false,
+        code: postingErrorCodes.tooManyLinks,
+        error: `New accounts can include up to ${NEW_ACCOUNT_MAX_LINKS} links per post. Remove some links and try again.`,
+      };
+    }
+  }
+
+  return null;
+}
+
+// Runs a posting server action for the signed-in user once the post has
+// passed the budget, duplicate and link checks. The user id comes from the
+// session, never from the client, so limits can't be dodged by posting as
+// someone else.
+export async function withPostingLimits<T>(
+  action: PostingAction,
+  content: string,
+  handler: (userId: string) => Promise<T>
+): Promise<T | PostingError | { success: false; error: string }> {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  await connectDB();
+  const rejection = await checkPost(action, userId, content);
+  if (rejection) {
+    return rejection;
+  }
+  return handler(userId);
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  backoffDelay,
+  BackoffPolicy,
+  clearFailures,
+  consumeBudget,
+  isBlocked,
+  memoryRateLimitStore,
+  recordFailure,
+  setRateLimitStore,
+} from "./rateLimit";
+
+const policy: BackoffPolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  windowMs: 60 * 60 * 1000,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  setRateLimitStore(memoryRateLimitStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("backoffDelay", () => {
+  it("allows the free attempts, then doubles up to the cap", () => {
+    expect(
+      [1, 2, 3, 4, 5, 6, 7, 8].map((n) => backoffDelay(n, policy))
+    ).toEqual([0, 0, 0, 1000, 2000, 4000, 8000, 8000]);
+  });
+});
+
+describe("recordFailure", () => {
+  it("blocks only once the free attempts are used up", async () => {
+    for (let i = 0; i < policy.freeAttempts; i++) {
+      await recordFailure("key", policy);
+    }
+    expect(await isBlocked("key")).toBe(false);
+
+    expect(await recordFailure("key", policy)).toBe(4);
+    expect(await isBlocked("key")).toBe(true);
+  });
+
+  it("lifts the block when the delay runs out", async () => {
+    for (let i = 0; i <= policy.freeAttempts; i++) {
+      await recordFailure("key", policy);
+    }
+    vi.advanceTimersByTime(999);
+    expect(await isBlocked("key")).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(await isBlocked("key")).toBe(false);
+  });
+
+  it("starts the count over after the window", async () => {
+    for (let i = 0; i < policy.freeAttempts; i++) {
+      await recordFailure("key", policy);
+    }
+    vi.advanceTimersByTime(policy.windowMs);
+    expect(await recordFailure("key", policy)).toBe(1);
+  });
+
+  it("keeps keys apart and forgets a key once cleared", async () => {
+    for (let i = 0; i <= policy.freeAttempts; i++) {
+      await recordFailure("a", policy);
+    }
+    expect(await isBlocked("b")).toBe(false);
+
+    await clearFailures("a");
+    expect(await isBlocked("a")).toBe(false);
+    expect(await recordFailure("a", policy)).toBe(1);
+  });
+});
+
+describe("consumeBudget", () => {
+  it("refuses hits over the limit until the window resets", async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push((await consumeBudget("posts", 3, 1000)).allowed);
+    }
+    expect(results).toEqual([true, true, true, false]);
+
+    vi.advanceTimersByTime(1000);
+    expect((await consumeBudget("posts", 3, 1000)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import DiscussRateLimit from "../model/DiscussRateLimit";
+import connectDB from "./mongodb";
+
+export interface RateLimitEntry {
+  count: number;
+  blockedUntil: Date | null;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  // Counts one hit. The window is fixed: it opens with the first hit and the
+  // count starts over `windowMs` later (or once a block runs out, if later).
+  hit(key: string, windowMs: number): Promise<RateLimitEntry>;
+  block(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+function mongoRateLimitStore(): RateLimitStore {
+  return {
+    async get(key) {
+      await connectDB();
+      const entry = await DiscussRateLimit.findOne({
+        key,
+        expiresAt: { $gt: new Date() },
+      }).lean();
+      return entry
+        ? {
+            count: entry.count,
+            blockedUntil: entry.blockedUntil,
+            resetAt: entry.expiresAt,
+          }
+        : null;
+    },
+    async hit(key, windowMs) {
+      await connectDB();
+      const now = new Date();
+      // One pipeline upsert, so the window reset and the count can't race.
+      // TTL cleanup runs about once a minute, so a stale document may still
+      // be here and is started over by hand. Concurrent upserts on the
+      // unique key are retried by the server instead of failing with E11000.
+      const live = { $gt: [{ $ifNull: ["$expiresAt", now] }, now] };
+      const entry = await DiscussRateLimit.findOneAndUpdate(
+        { key },
+        [
+          {
+            $set: {
+              count: { $cond: [live, { $add: ["$count", 1] }, 1] },
+              blockedUntil: { $cond: [live, "$blockedUntil", null] },
+              expiresAt: {
+                $cond: [live, "$expiresAt", new Date(now.getTime() + windowMs)],
+              },
+            },
+          },
+        ],
+        { upsert: true, new: true, updatePipeline: true }
+      ).lean();
+      return {
+        count: entry.count,
+        blockedUntil: entry.blockedUntil,
+        resetAt: entry.expiresAt,
+      };
+    },
+    async block(key, until) {
+      await connectDB();
+      await DiscussRateLimit.updateOne(
+        { key },
+        { $set: { blockedUntil: until }, $max: { expiresAt: until } }
+      );
+    },
+    async reset(key) {
+      await connectDB();
+      await DiscussRateLimit.deleteOne({ key });
+    },
+  };
+}
+
+// Keeps counters in process memory. Meant for tests and single-process
+// development; counts are lost on restart and not shared between instances.
+export function memoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<
+    string,
+    { count: number; blockedUntil: Date | null; expiresAt: number }
+  >();
+
+  const toEntry = (entry: {
+    count: number;
+    blockedUntil: Date | null;
+    expiresAt: number;
+  }) => ({
+    count: entry.count,
+    blockedUntil: entry.blockedUntil,
+    resetAt: new Date(entry.expiresAt),
+  });
+
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    async get(key) {
+      const entry = live(key);
+      return entry ? toEntry(entry) : null;
+    },
+    async hit(key, windowMs) {
+      const entry = live(key) ?? {
+        count: 0,
+        blockedUntil: null,
+        expiresAt: Date.now() + windowMs,
+      };
+      entry.count += 1;
+      entries.set(key, entry);
+      return toEntry(entry);
+    },
+    async block(key, until) {
+      const entry = live(key);
+      if (entry) {
+        entry.blockedUntil = until;
+        entry.expiresAt = Math.max(entry.expiresAt, until.getTime());
+      }
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// RATE_LIMIT_STORE=memory swaps in the in-memory store; Mongo otherwise.
+function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE ?? "mongo";
+  switch (kind) {
+    case "mongo":
+      return mongoRateLimitStore();
+    case "memory":
+      return memoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}"`);
+  }
+}
+
+let store: RateLimitStore | undefined;
+
+export function getRateLimitStore() {
+  store ??= createRateLimitStore();
+  return store;
+}
+
+export function setRateLimitStore(rateLimitStore: RateLimitStore) {
+  store = rateLimitStore;
+}
+
+export interface BackoffPolicy {
+  // Failures allowed before any delay kicks in.
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  windowMs: number;
+}
+
+// The wait after the nth failure: nothing for the free attempts, then
+// doubling from `baseDelayMs` up to `maxDelayMs`.
+export function backoffDelay(failures: number, policy: BackoffPolicy) {
+  const over = failures - policy.freeAttempts;
+  if (over <= 0) {
+    return 0;
+  }
+  return Math.min(policy.baseDelayMs * 2 ** (over - 1), policy.maxDelayMs);
+}
+
+export async function isBlocked(key: string) {
+  const entry = await getRateLimitStore().get(key);
+  return Boolean(entry?.blockedUntil && entry.blockedUntil > new Date());
+}
+
+// Records a failure and blocks the key for the backoff delay. Returns the
+// failure count so callers can add their own thresholds on top.
+export async function recordFailure(key: string, policy: BackoffPolicy) {
+  const rateLimitStore = getRateLimitStore();
+  const { count } = await rateLimitStore.hit(key, policy.windowMs);
+  const delay = backoffDelay(count, policy);
+  if (delay > 0) {
+    await rateLimitStore.block(key, new Date(Date.now() + delay));
+  }
+  return count;
+}
+
+export async function clearFailures(key: string) {
+  await getRateLimitStore().reset(key);
+}
+
+// Spends one unit of a fixed budget, e.g. five posts an hour. Attempts
+// over the budget still count, so hammering doesn't reopen it any sooner.
+export async function consumeBudget(
+  key: string,
+  limit: number,
+  windowMs: number
+) {
+  const { count, resetAt } = await getRateLimitStore().hit(key, windowMs);
+  return { allowed: count <= limit, resetAt };
+}
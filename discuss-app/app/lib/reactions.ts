@@ -0,0 +1,46 @@
+export const reactionPalette = [
+  { key: "thumbsup", emoji: "👍", label: "Thumbs up" },
+  { key: "tada", emoji: "🎉", label: "Hooray" },
+  { key: "heart", emoji: "❤️", label: "Heart" },
+  { key: "smile", emoji: "😄", label: "Laugh" },
+  { key: "thinking", emoji: "🤔", label: "Thinking" },
+  { key: "eyes", emoji: "👀", label: "Eyes" },
+] as const;
+
+export type ReactionKey = (typeof reactionPalette)[number]["key"];
+
+export const reactionKeys = reactionPalette.map((reaction) => reaction.key) as [
+  ReactionKey,
+  ...ReactionKey[],
+];
+
+export type ReactionSet = {
+  users: string[];
+  count: number;
+};
+
+export type Reactions = Partial<Record<ReactionKey, ReactionSet>>;
+
+export type ReactionSummary = {
+  key: ReactionKey;
+  emoji: string;
+  label: string;
+  count: number;
+  reacted: boolean;
+};
+
+export function summarizeReactions(
+  reactions: Reactions | undefined,
+  currentUserId?: string
+): ReactionSummary[] {
+  return reactionPalette.map((reaction) => {
+    const set = reactions?.[reaction.key];
+    return {
+      ...reaction,
+      count: set?.count ?? 0,
+      reacted: currentUserId
+        ? (set?.users ?? []).includes(currentUserId)
+        : false,
+    };
+  });
+}
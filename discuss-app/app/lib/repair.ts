@@ -0,0 +1,109 @@
+import DiscussComment from "../model/DiscussComment";
+import DiscussDiscussion from "../model/DiscussDiscussion";
+import DiscussTag from "../model/DiscussTag";
+import DiscussView from "../model/DiscussView";
+import { repairLikesPipeline } from "./votes";
+import connectDB from "./mongodb";
+
+// Recomputes denormalized counters from their source of truth. Safe to run
+// repeatedly; meant for data written before the counters were maintained
+// atomically.
+export async function repairCounts() {
+  await connectDB();
+
+  const discussions = await DiscussDiscussion.updateMany(
+    {},
+    repairLikesPipeline(),
+    { updatePipeline: true }
+  );
+  const comments = await DiscussComment.updateMany({}, repairLikesPipeline(), {
+    updatePipeline: true,
+  });
+
+  await DiscussDiscussion.aggregate([
+    {
+      $lookup: {
+        from: DiscussComment.collection.name,
+        let: { discussId: { $toString: "$_id" } },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $eq: ["$discussId", "$$discussId"] },
+              isDeleted: { $ne: true },
+            },
+          },
+          { $count: "total" },
+        ],
+        as: "comments",
+      },
+    },
+    {
+      $project: {
+        commentCount: { $ifNull: [{ $first: "$comments.total" }, 0] },
+      },
+    },
+    {
+      $merge: {
+        into: DiscussDiscussion.collection.name,
+        whenMatched: "merge",
+        whenNotMatched: "discard",
+      },
+    },
+  ]);
+
+  // Views used to be deduplicated through a `viewedBy` array on each
+  // discussion; move what's left of those into their own collection.
+  await DiscussView.init();
+  await DiscussDiscussion.aggregate([
+    { $match: { "viewedBy.0": { $exists: true } } },
+    { $unwind: "$viewedBy" },
+    {
+      $project: {
+        _id: 0,
+        discussId: "$_id",
+        userId: { $toObjectId: "$viewedBy" },
+        createdAt: "$$NOW",
+        updatedAt: "$$NOW",
+      },
+    },
+    {
+      $merge: {
+        into: DiscussView.collection.name,
+        on: ["discussId", "userId"],
+        whenMatched: "keepExisting",
+        whenNotMatched: "insert",
+      },
+    },
+  ]);
+  await DiscussDiscussion.collection.updateMany(
+    { viewedBy: { $exists: true } },
+    { $unset: { viewedBy: "" } }
+  );
+
+  await DiscussTag.updateMany({}, { $set: { discussionCount: 0 } });
+  await DiscussDiscussion.aggregate([
+    { $unwind: "$tags" },
+    { $group: { _id: "$tags", discussionCount: { $sum: 1 } } },
+    {
+      $project: {
+        _id: 0,
+        slug: "$_id",
+        name: "$_id",
+        discussionCount: 1,
+      },
+    },
+    {
+      $merge: {
+        into: DiscussTag.collection.name,
+        on: "slug",
+        whenMatched: [{ $set: { discussionCount: "$$new.discussionCount" } }],
+        whenNotMatched: "insert",
+      },
+    },
+  ]);
+
+  return {
+    discussionsUpdated: discussions.modifiedCount,
+    commentsUpdated: comments.modifiedCount,
+  };
+}
@@ -0,0 +1,43 @@
+import { headers } from "next/headers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRequestInfo } from "./request";
+
+vi.mock("next/headers", () => ({ headers: vi.fn() }));
+
+function withHeaders(init: Record<string, string>) {
+  vi.mocked(headers).mockResolvedValue(
+    new Headers(init) as Awaited<ReturnType<typeof headers>>
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getRequestInfo", () => {
+  it("ignores forwarded headers unless proxies are trusted", async () => {
+    withHeaders({ "x-forwarded-for": "198.51.100.1", "x-real-ip": "1.2.3.4" });
+    expect((await getRequestInfo()).ip).toBe("");
+  });
+
+  it("takes the right-most hop not added by a trusted proxy", async () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+    withHeaders({ "x-forwarded-for": "10.0.0.1, 198.51.100.1" });
+    expect((await getRequestInfo()).ip).toBe("198.51.100.1");
+
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    withHeaders({
+      "x-forwarded-for": "10.0.0.1, 198.51.100.1, 192.0.2.9",
+    });
+    expect((await getRequestInfo()).ip).toBe("198.51.100.1");
+  });
+
+  it("falls back to x-real-ip without a forwarded chain", async () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+    withHeaders({ "x-real-ip": "198.51.100.2", "user-agent": "test" });
+    expect(await getRequestInfo()).toEqual({
+      userAgent: "test",
+      ip: "198.51.100.2",
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { headers } from "next/headers";
+
+// Number of reverse proxies in front of the app that append to
+// X-Forwarded-For. Forwarded headers are client-controlled unless a proxy we
+// run rewrites them, so they are ignored when this is unset.
+function trustedProxyCount() {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 0);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// Each trusted proxy appends the address it received the request from, so
+// the client is the right-most hop not added by one of ours. Anything to
+// its left was sent by the client and can be forged.
+function clientIp(headerList: Headers) {
+  const proxies = trustedProxyCount();
+  if (!proxies) {
+    return "";
+  }
+
+  const hops = (headerList.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length) {
+    return hops[Math.max(0, hops.length - proxies)];
+  }
+  return headerList.get("x-real-ip") ?? "";
+}
+
+// The client's user agent and IP. The IP is empty when it can't be
+// trusted, and callers skip anything keyed on it.
+export async function getRequestInfo() {
+  const headerList = await headers();
+  return {
+    userAgent: headerList.get("user-agent") ?? "",
+    ip: clientIp(headerList),
+  };
+}
@@ -0,0 +1,43 @@
+export type SnippetPart = {
+  text: string;
+  highlight: boolean;
+};
+
+export function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function searchTerms(query: string) {
+  return query
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-"))
+    .map((term) => term.toLowerCase());
+}
+
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  radius = 80
+): SnippetPart[] {
+  if (terms.length === 0) {
+    return [{ text: text.slice(0, radius * 2), highlight: false }];
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegex).join("|")})`, "gi");
+  const firstMatch = text.search(pattern);
+  const start = Math.max(0, firstMatch - radius);
+  const end = Math.min(text.length, Math.max(firstMatch, 0) + radius);
+
+  let window = text.slice(start, end);
+  if (start > 0) window = `…${window}`;
+  if (end < text.length) window = `${window}…`;
+
+  return window
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      highlight: terms.includes(part.toLowerCase()),
+    }));
+}
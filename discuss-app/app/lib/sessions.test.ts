@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import DiscussSession from "../model/DiscussSession";
+import DiscussUser from "../model/DiscussUser";
+import {
+  describeDevice,
+  getActiveSessionUser,
+  revokeAllSessions,
+  revokeOtherSessions,
+} from "./sessions";
+
+vi.mock("./mongodb", () => ({ default: vi.fn() }));
+vi.mock("./request", () => ({
+  getRequestInfo: async () => ({ userAgent: "", ip: "203.0.113.7" }),
+}));
+vi.mock("../model/DiscussSession", () => ({
+  default: {
+    aggregate: vi.fn(),
+    updateOne: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+}));
+vi.mock("../model/DiscussUser", () => ({
+  default: {
+    updateOne: vi.fn(),
+    collection: { name: "discussusers" },
+  },
+}));
+
+const USER_ID = "64b7f0c2a1b2c3d4e5f60718";
+
+function sessionRow(tokenVersion: number, lastSeenAt = new Date()) {
+  return {
+    _id: "session-row",
+    lastSeenAt,
+    user: { tokenVersion, role: "admin", twoFactorEnabled: true },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("getActiveSessionUser", () => {
+  it("returns the user's current state for a live session", async () => {
+    vi.mocked(DiscussSession.aggregate).mockResolvedValue([sessionRow(2)]);
+
+    expect(await getActiveSessionUser(USER_ID, "sid", 2)).toEqual({
+      tokenVersion: 2,
+      role: "admin",
+      twoFactorEnabled: true,
+    });
+    expect(DiscussSession.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("rejects a token issued before the version moved on", async () => {
+    vi.mocked(DiscussSession.aggregate).mockResolvedValue([sessionRow(3)]);
+    expect(await getActiveSessionUser(USER_ID, "sid", 2)).toBeNull();
+  });
+
+  it("rejects a session whose document is gone", async () => {
+    vi.mocked(DiscussSession.aggregate).mockResolvedValue([]);
+    expect(await getActiveSessionUser(USER_ID, "sid", 0)).toBeNull();
+  });
+
+  it("rejects a malformed user id without querying", async () => {
+    expect(await getActiveSessionUser("not-an-id", "sid", 0)).toBeNull();
+    expect(DiscussSession.aggregate).not.toHaveBeenCalled();
+  });
+
+  it("touches a session that hasn't been seen for a while", async () => {
+    vi.mocked(DiscussSession.aggregate).mockResolvedValue([
+      sessionRow(0, new Date(Date.now() - 10 * 60 * 1000)),
+    ]);
+
+    await getActiveSessionUser(USER_ID, "sid", 0);
+    expect(DiscussSession.updateOne).toHaveBeenCalledWith(
+      { _id: "session-row" },
+      expect.objectContaining({ ip: "203.0.113.7" })
+    );
+  });
+});
+
+describe("revocation", () => {
+  it("bumps the token version and drops every session", async () => {
+    await revokeAllSessions(USER_ID);
+
+    expect(DiscussUser.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $inc: { tokenVersion: 1 } }
+    );
+    expect(DiscussSession.deleteMany).toHaveBeenCalledWith({
+      userId: USER_ID,
+    });
+  });
+
+  it("keeps the current session when revoking the others", async () => {
+    await revokeOtherSessions(USER_ID, "current");
+
+    expect(DiscussUser.updateOne).not.toHaveBeenCalled();
+    expect(DiscussSession.deleteMany).toHaveBeenCalledWith({
+      userId: USER_ID,
+      sessionId: { $ne: "current" },
+    });
+  });
+});
+
+describe("describeDevice", () => {
+  it("names the browser before the engines it claims to be", () => {
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36 Edg/120.0"
+      )
+    ).toBe("Edge on Windows");
+    expect(describeDevice("")).toBe("Unknown browser");
+  });
+});
@@ -0,0 +1,157 @@
+import { randomBytes } from "crypto";
+import mongoose from "mongoose";
+import { cache } from "react";
+import DiscussSession from "../model/DiscussSession";
+import DiscussUser from "../model/DiscussUser";
+import connectDB from "./mongodb";
+import { getRequestInfo } from "./request";
+
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+// How stale `lastSeenAt` may get before a request writes it again.
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const browsers: [string, string][] = [
+  ["Edg/", "Edge"],
+  ["OPR/", "Opera"],
+  ["Firefox/", "Firefox"],
+  ["Chrome/", "Chrome"],
+  ["Safari/", "Safari"],
+];
+
+const systems: [string, string][] = [
+  ["Windows", "Windows"],
+  ["Android", "Android"],
+  ["iPhone", "iOS"],
+  ["iPad", "iPadOS"],
+  ["Mac OS X", "macOS"],
+  ["CrOS", "ChromeOS"],
+  ["Linux", "Linux"],
+];
+
+// A readable label like "Firefox on Windows". Order matters: Edge and
+// Opera also claim to be Chrome, and Chrome claims to be Safari.
+export function describeDevice(userAgent: string) {
+  const browser =
+    browsers.find(([marker]) => userAgent.includes(marker))?.[1] ??
+    "Unknown browser";
+  const system = systems.find(([marker]) => userAgent.includes(marker))?.[1];
+  return system ? `${browser} on ${system}` : browser;
+}
+
+function expiresFrom(date: Date) {
+  return new Date(date.getTime() + SESSION_MAX_AGE * 1000);
+}
+
+export async function createSessionRecord(userId: string) {
+  await connectDB();
+  const { userAgent, ip } = await getRequestInfo();
+  const now = new Date();
+  const sessionId = randomBytes(32).toString("hex");
+
+  await DiscussSession.create({
+    userId,
+    sessionId,
+    device: describeDevice(userAgent),
+    userAgent,
+    ip,
+    lastSeenAt: now,
+    expiresAt: expiresFrom(now),
+  });
+  return sessionId;
+}
+
+type SessionUser = {
+  tokenVersion: number;
+  role: "user" | "admin";
+  twoFactorEnabled: boolean;
+};
+
+// The session row joined with the few user fields the jwt callback needs,
+// in one query. `auth()` runs several times per render, so this is
+// memoized for the request, which also limits the `lastSeenAt` write to
+// once per request at most.
+const loadSession = cache(
+  async (userId: string, sessionId: string): Promise<SessionUser | null> => {
+    if (!mongoose.isValidObjectId(userId)) {
+      return null;
+    }
+
+    await connectDB();
+    const [session] = await DiscussSession.aggregate([
+      {
+        $match: {
+          sessionId,
+          userId: new mongoose.Types.ObjectId(userId),
+        },
+      },
+      {
+        $lookup: {
+          from: DiscussUser.collection.name,
+          localField: "userId",
+          foreignField: "_id",
+          as: "user",
+          pipeline: [
+            { $project: { tokenVersion: 1, role: 1, twoFactorEnabled: 1 } },
+          ],
+        },
+      },
+      { $unwind: "$user" },
+    ]);
+    if (!session) {
+      return null;
+    }
+
+    const now = new Date();
+    if (now.getTime() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+      const { ip } = await getRequestInfo();
+      await DiscussSession.updateOne(
+        { _id: session._id },
+        { lastSeenAt: now, expiresAt: expiresFrom(now), ...(ip && { ip }) }
+      );
+    }
+
+    return {
+      tokenVersion: session.user.tokenVersion ?? 0,
+      role: session.user.role ?? "user",
+      twoFactorEnabled: Boolean(session.user.twoFactorEnabled),
+    };
+  }
+);
+
+// A token stays valid while its session document exists and the user's
+// token version hasn't moved on since it was issued. Returns the user's
+// current role and two-factor state, or null for a dead session.
+export async function getActiveSessionUser(
+  userId: string,
+  sessionId: string,
+  tokenVersion: number
+) {
+  const user = await loadSession(userId, sessionId);
+  return user?.tokenVersion === tokenVersion ? user : null;
+}
+
+export async function endSession(sessionId: string) {
+  await connectDB();
+  await DiscussSession.deleteOne({ sessionId });
+}
+
+// Signs out every session but the one making the request.
+export async function revokeOtherSessions(
+  userId: string,
+  currentSessionId: string | undefined
+) {
+  await connectDB();
+  await DiscussSession.deleteMany({
+    userId,
+    ...(currentSessionId && { sessionId: { $ne: currentSessionId } }),
+  });
+}
+
+// Signs the user out everywhere: old tokens fail the version check even if
+// a session document were somehow left behind.
+export async function revokeAllSessions(userId: string) {
+  await connectDB();
+  await DiscussUser.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+  await DiscussSession.deleteMany({ userId });
+}
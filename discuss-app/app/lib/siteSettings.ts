@@ -0,0 +1,25 @@
+import { cache } from "react";
+import DiscussSettings from "../model/DiscussSettings";
+import connectDB from "./mongodb";
+
+const SITE_KEY = "site";
+
+// Read by the jwt callback on every `auth()`, so memoized per request.
+export const getSiteSettings = cache(async () => {
+  await connectDB();
+  const settings = await DiscussSettings.findOne({ key: SITE_KEY }).lean();
+  return {
+    requireTwoFactor: Boolean(settings?.requireTwoFactor),
+  };
+});
+
+export async function updateSiteSettings(update: {
+  requireTwoFactor: boolean;
+}) {
+  await connectDB();
+  await DiscussSettings.updateOne(
+    { key: SITE_KEY },
+    { $set: update },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,55 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+export interface StorageAdapter {
+  // Stores the file and returns the URL it can be fetched from.
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const UPLOAD_ROUTE = "/uploads";
+
+// Files live outside `public/` because Next only serves files that existed
+// at build time from there; app/uploads/[...key]/route.ts serves them instead.
+function localStorageAdapter(root: string): StorageAdapter {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+      return `${UPLOAD_ROUTE}/${key}`;
+    },
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch {
+        return null;
+      }
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+let storage: StorageAdapter | undefined;
+
+export function getStorage() {
+  storage ??= localStorageAdapter(
+    process.env.UPLOAD_DIR ?? path.join(process.cwd(), "uploads")
+  );
+  return storage;
+}
+
+export function setStorage(adapter: StorageAdapter) {
+  storage = adapter;
+}
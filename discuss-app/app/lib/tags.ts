@@ -0,0 +1,31 @@
+import DiscussTag from "../model/DiscussTag";
+
+// Moves a discussion from one tag set to another: tags it gained are created
+// if needed and counted, tags it lost are uncounted. Pass [] as `previous` for
+// a new discussion and as `next` for a deleted one.
+export async function updateTagCounts(previous: string[], next: string[]) {
+  const added = next.filter((slug) => !previous.includes(slug));
+  const removed = previous.filter((slug) => !next.includes(slug));
+  if (added.length === 0 && removed.length === 0) {
+    return;
+  }
+
+  await DiscussTag.bulkWrite([
+    ...added.map((slug) => ({
+      updateOne: {
+        filter: { slug },
+        update: {
+          $setOnInsert: { slug, name: slug },
+          $inc: { discussionCount: 1 },
+        },
+        upsert: true,
+      },
+    })),
+    ...removed.map((slug) => ({
+      updateOne: {
+        filter: { slug },
+        update: { $inc: { discussionCount: -1 } },
+      },
+    })),
+  ]);
+}
@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from "crypto";
+
+// Tokens sent by email are stored hashed, so a leaked database does not hand
+// out working links.
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function createToken() {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashToken(token) };
+}
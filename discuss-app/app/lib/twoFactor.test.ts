@@ -0,0 +1,103 @@
+import { Secret, TOTP } from "otpauth";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createTwoFactorNonce,
+  createTwoFactorSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  signTwoFactorProof,
+  verifyTotp,
+  verifyTwoFactorProof,
+} from "./twoFactor";
+
+function codeAt(secret: string, timestamp: number) {
+  return new TOTP({ secret: Secret.fromBase32(secret), period: 30 }).generate({
+    timestamp,
+  });
+}
+
+describe("verifyTotp", () => {
+  const { secret } = createTwoFactorSecret("someone@example.com");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:10Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts the current code and returns its step", () => {
+    const step = Math.floor(Date.now() / 30000);
+    expect(verifyTotp(secret, codeAt(secret, Date.now()))).toBe(step);
+  });
+
+  it("tolerates spaces and one step of clock drift", () => {
+    const code = codeAt(secret, Date.now() - 30000);
+    expect(verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`)).not.toBe(
+      null
+    );
+  });
+
+  it("rejects codes outside the window or in the wrong format", () => {
+    expect(verifyTotp(secret, codeAt(secret, Date.now() - 90000))).toBeNull();
+    expect(verifyTotp(secret, "12345")).toBeNull();
+    expect(verifyTotp(secret, "abcdef")).toBeNull();
+  });
+
+  it("rejects a code replayed from an already used step", () => {
+    const code = codeAt(secret, Date.now());
+    const step = verifyTotp(secret, code);
+
+    expect(verifyTotp(secret, code, step)).toBeNull();
+    expect(verifyTotp(secret, codeAt(secret, Date.now() - 30000), step)).toBe(
+      null
+    );
+    vi.advanceTimersByTime(30000);
+    expect(verifyTotp(secret, codeAt(secret, Date.now()), step)).toBe(
+      step! + 1
+    );
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes whose hashes match what users type", () => {
+    const { codes, hashes } = generateRecoveryCodes();
+
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(
+      hashRecoveryCode(` ${codes[0].toUpperCase().replace("-", "")} `)
+    ).toBe(hashes[0]);
+  });
+});
+
+describe("two-factor proof", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("verifies only for the user and nonce it was signed for", () => {
+    const nonce = createTwoFactorNonce();
+    const proof = signTwoFactorProof("user-1", nonce);
+
+    expect(verifyTwoFactorProof("user-1", nonce, proof)).toBe(true);
+    expect(verifyTwoFactorProof("user-2", nonce, proof)).toBe(false);
+    expect(verifyTwoFactorProof("user-1", createTwoFactorNonce(), proof)).toBe(
+      false
+    );
+    expect(verifyTwoFactorProof("user-1", nonce, undefined)).toBe(false);
+    expect(verifyTwoFactorProof("user-1", nonce, "short")).toBe(false);
+  });
+
+  it("refuses to sign without a secret", () => {
+    vi.stubEnv("AUTH_SECRET", "");
+    vi.stubEnv("NEXTAUTH_SECRET", "");
+    expect(() => signTwoFactorProof("user-1", "nonce")).toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Secret, TOTP } from "otpauth";
+import { hashToken } from "./tokens";
+
+const ISSUER = "Discuss";
+const PERIOD_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+
+function totpFor(secret: string, label = "") {
+  return new TOTP({
+    issuer: ISSUER,
+    label,
+    period: PERIOD_SECONDS,
+    secret: Secret.fromBase32(secret),
+  });
+}
+
+export function createTwoFactorSecret(email: string) {
+  const secret = new Secret({ size: 20 }).base32;
+  return { secret, uri: totpFor(secret, email).toString() };
+}
+
+// Returns the time step the code belongs to, or null when it doesn't match.
+// Codes from a step at or before `lastUsedStep` are rejected so a code
+// can't be replayed within its validity window.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null
+) {
+  const token = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(token)) {
+    return null;
+  }
+
+  const delta = totpFor(secret).validate({ token, window: 1 });
+  if (delta === null) {
+    return null;
+  }
+
+  const step = Math.floor(Date.now() / 1000 / PERIOD_SECONDS) + delta;
+  if (lastUsedStep !== null && step <= lastUsedStep) {
+    return null;
+  }
+  return step;
+}
+
+export function hashRecoveryCode(code: string) {
+  return hashToken(code.replace(/[\s-]/g, "").toLowerCase());
+}
+
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// A session that has passed the password step carries a random nonce. Once
+// the second factor checks out, the server signs that nonce and hands it to
+// the jwt callback through a session update; the client can't forge it
+// without AUTH_SECRET.
+export function createTwoFactorNonce() {
+  return randomBytes(16).toString("base64url");
+}
+
+function proofKey() {
+  const secret = process.env.AUTH_SECRET ?? process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET must be set to use two-factor sign-in");
+  }
+  return secret;
+}
+
+export function signTwoFactorProof(userId: string, nonce: string) {
+  return createHmac("sha256", proofKey())
+    .update(`2fa:${userId}:${nonce}`)
+    .digest("base64url");
+}
+
+export function verifyTwoFactorProof(
+  userId: string,
+  nonce: string,
+  proof: unknown
+) {
+  if (typeof proof !== "string") {
+    return false;
+  }
+  const expected = Buffer.from(signTwoFactorProof(userId, nonce));
+  const actual = Buffer.from(proof);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,5 +1,23 @@
 import { z } from "zod";
 
+export function slugifyTag(tag: string) {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export const tagSchema = z
+  .string()
+  .transform(slugifyTag)
+  .pipe(
+    z
+      .string()
+      .min(2, "Tags must be at least 2 characters")
+      .max(30, "Tags must not be more than 30 characters")
+  );
+
 export const createDiscussionSchema = z.object({
   title: z
     .string()
@@ -11,6 +29,11 @@ export const createDiscussionSchema = z.object({
     .min(3, "Must not be less than 3 characters")
     .max(1000, "Must not be more than 1000 characters")
     .trim(),
+  tags: z
+    .array(tagSchema)
+    .max(5, "A discussion can have at most 5 tags")
+    .transform((tags) => [...new Set(tags)])
+    .default([]),
 });
 
 export const createCommentSchema = z.object({
@@ -21,6 +44,11 @@ export const createCommentSchema = z.object({
     .trim(),
 });
 
+// Previews cover both editors, so allow up to the longer of the two limits.
+export const previewMarkdownSchema = z.object({
+  source: z.string().max(2000, "Too long to preview"),
+});
+
 export const userResgistrationSchema = z.object({
   fullName: z
     .string()
@@ -42,6 +70,57 @@ export const userResgistrationSchema = z.object({
     ),
 });
 
+export const profileSchema = z.object({
+  fullName: userResgistrationSchema.shape.fullName,
+  bio: z
+    .string()
+    .trim()
+    .max(500, "Bio should not be more than 500 characters")
+    .default(""),
+});
+
+export const changeEmailSchema = userResgistrationSchema
+  .pick({ email: true })
+  .extend({ currentPassword: z.string() });
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: userResgistrationSchema.shape.password,
+});
+
+export const forgotPasswordSchema = userResgistrationSchema.pick({
+  email: true,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: userResgistrationSchema.shape.password,
+});
+
+export const searchSchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(2, "Search must be at least 2 characters")
+    .max(100, "Search must not be more than 100 characters"),
+  author: z.string().trim().max(30).optional(),
+  tag: tagSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const discussionSorts = ["new", "top", "hot", "discussed"] as const;
+export const topWindows = ["day", "week", "month", "all"] as const;
+
+export const feedSortSchema = z.object({
+  sort: z.enum(discussionSorts).catch("new"),
+  window: z.enum(topWindows).catch("all"),
+});
+
 export type CreateDiscussionInput = z.infer<typeof createDiscussionSchema>;
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
 export type UserregistrationInput = z.infer<typeof userResgistrationSchema>;
+export type ProfileInput = z.input<typeof profileSchema>;
+export type SearchInput = z.input<typeof searchSchema>;
+export type DiscussionSort = (typeof discussionSorts)[number];
+export type TopWindow = (typeof topWindows)[number];
@@ -0,0 +1,116 @@
+// Update pipelines that keep user sets (votes, reactions) and their
+// counters in lockstep. Each one runs as a single atomic document update, so
+// concurrent toggles cannot double-count and a counter always equals the size
+// of its set.
+
+// Adds the user to the set at `setPath` if absent, removes them otherwise, and
+// stores the resulting size at `countPath`.
+export function toggleMembershipPipeline(
+  setPath: string,
+  countPath: string,
+  userId: string
+) {
+  const current = { $ifNull: [`$${setPath}`, []] };
+  return [
+    {
+      $set: {
+        [setPath]: {
+          $cond: [
+            { $in: [userId, current] },
+            { $setDifference: [current, [userId]] },
+            { $concatArrays: [current, [userId]] },
+          ],
+        },
+      },
+    },
+    { $set: { [countPath]: { $size: `$${setPath}` } } },
+  ];
+}
+
+export type Vote = "up" | "down" | "none";
+
+export type VoteResult = {
+  success: boolean;
+  error?: string;
+  upVote?: number;
+  downVote?: number;
+  score?: number;
+  vote?: Vote;
+};
+
+export function currentVote(
+  doc: { likedBy?: string[]; dislikedBy?: string[] },
+  userId?: string
+): Vote {
+  if (!userId) return "none";
+  if (doc.likedBy?.includes(userId)) return "up";
+  if (doc.dislikedBy?.includes(userId)) return "down";
+  return "none";
+}
+
+// Voting the same direction twice clears the vote; voting the other way
+// switches it. `likedBy` and `dislikedBy` stay disjoint and `score` is always
+// `upVote - downVote`.
+export function votePipeline(userId: string, direction: "up" | "down") {
+  const liked = { $ifNull: ["$likedBy", []] };
+  const disliked = { $ifNull: ["$dislikedBy", []] };
+  const [same, other] =
+    direction === "up" ? [liked, disliked] : [disliked, liked];
+  const [sameField, otherField] =
+    direction === "up" ? ["likedBy", "dislikedBy"] : ["dislikedBy", "likedBy"];
+
+  return [
+    {
+      $set: {
+        [sameField]: {
+          $cond: [
+            { $in: [userId, same] },
+            { $setDifference: [same, [userId]] },
+            { $concatArrays: [same, [userId]] },
+          ],
+        },
+        [otherField]: { $setDifference: [other, [userId]] },
+      },
+    },
+    {
+      $set: {
+        upVote: { $size: "$likedBy" },
+        downVote: { $size: "$dislikedBy" },
+      },
+    },
+    { $set: { score: { $subtract: ["$upVote", "$downVote"] } } },
+  ];
+}
+
+function cleanUserSet(field: string) {
+  return {
+    $setUnion: [
+      {
+        $filter: {
+          input: { $ifNull: [`$${field}`, []] },
+          cond: { $eq: [{ $type: "$$this" }, "string"] },
+        },
+      },
+    ],
+  };
+}
+
+// Drops non-string entries (e.g. nulls pushed by unauthenticated calls) and
+// duplicates, then recomputes the counts and net score.
+export function repairLikesPipeline() {
+  return [
+    {
+      $set: {
+        likedBy: cleanUserSet("likedBy"),
+        dislikedBy: cleanUserSet("dislikedBy"),
+      },
+    },
+    {
+      $set: {
+        upVote: { $size: "$likedBy" },
+        downVote: { $size: "$dislikedBy" },
+      },
+    },
+    { $set: { score: { $subtract: ["$upVote", "$downVote"] } } },
+  ];
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { resendVerificationEmail } from "@/app/actions/auth.actions";
+import { authErrorCodes } from "@/app/lib/authErrors";
+import { signIn } from "next-auth/react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function LoginForm({
+  initialError = "",
+}: {
+  initialError?: string;
+}) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState(initialError);
+  const [isUnverified, setIsUnverified] = useState(false);
+  const [notice, setNotice] = useState("");
+
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    setNotice("");
+    setIsUnverified(false);
+    try {
+      const res = await signIn("credentials", {
+        email,
+        password,
+        redirect: false,
+      });
+      if (res?.code === authErrorCodes.emailNotVerified) {
+        setIsUnverified(true);
+        setError("Please verify your email before logging in");
+      } else if (res?.code === authErrorCodes.tooManyAttempts) {
+        setError(
+          "Too many failed sign-in attempts. Please wait a few minutes and try again."
+        );
+      } else if (res?.error) {
+        setError("Email or password is not correct");
+      } else {
+        router.push("/discussion");
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+    }
+  };
+  const handleMagicLink = async () => {
+    setError("");
+    setNotice("");
+    setIsUnverified(false);
+    if (!email) {
+      setError("Enter your email to get a sign-in link");
+      return;
+    }
+    try {
+      const res = await signIn("email", {
+        email,
+        redirect: false,
+        redirectTo: "/discussion",
+      });
+      if (res?.error) {
+        setError("Could not send a sign-in link. Please try again.");
+      } else {
+        setNotice("Check your email for a sign-in link");
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+    }
+  };
+  const handleResend = async () => {
+    setError("");
+    const result = await resendVerificationEmail(email);
+    if (result.success) {
+      setIsUnverified(false);
+      setNotice("We sent you a new verification link");
+    } else {
+      setError(result.error || "Failed to send verification email");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <Card>
+          <CardHeader>
+            <CardTitle>Login to your account</CardTitle>
+            <CardDescription>
+              Enter your email below to login to your account
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+                {error}
+                {isUnverified && (
+                  <Button
+                    variant="link"
+                    type="button"
+                    className="h-auto p-0 ml-1 text-red-700 underline"
+                    onClick={handleResend}
+                  >
+                    Resend verification email
+                  </Button>
+                )}
+              </div>
+            )}
+            {notice && (
+              <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+                {notice}
+              </div>
+            )}
+            <form onSubmit={handleSubmit}>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel>Email</FieldLabel>
+                  <Input
+                    placeholder="user@example.com"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </Field>
+
+                <Field>
+                  <div className="flex items-center">
+                    <FieldLabel>Password</FieldLabel>
+                    <Link
+                      href="/forgot-password"
+                      className="ml-auto text-sm underline-offset-4 hover:underline"
+                    >
+                      Forgot your password?
+                    </Link>
+                  </div>
+                  <Input
+                    type="password"
+                    required
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </Field>
+
+                <Field>
+                  <Button type="submit">Login</Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() =>
+                      signIn("google", { callbackUrl: "/discussion" })
+                    }
+                  >
+                    Login with Google
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleMagicLink}
+                  >
+                    Email me a sign-in link
+                  </Button>
+
+                  <FieldDescription className="text-center">
+                    Don&apos;t have an account?{" "}
+                    <Link href="/register">Sign up</Link>
+                  </FieldDescription>
+                </Field>
+              </FieldGroup>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useState } from "react";
+
+interface MagicLinkFormProps {
+  token: string;
+  email: string;
+  callbackUrl: string;
+}
+
+// Signing in needs a click rather than happening on page load, so mail
+// scanners that prefetch links can't use up the token.
+export default function MagicLinkForm({
+  token,
+  email,
+  callbackUrl,
+}: MagicLinkFormProps) {
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSignIn = () => {
+    setIsSigningIn(true);
+    const params = new URLSearchParams({ token, email, callbackUrl });
+    window.location.assign(`/api/auth/callback/email?${params}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign in</CardTitle>
+        <CardDescription>
+          {email
+            ? `Continue signing in as ${email}.`
+            : "Continue signing in with your email link."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button
+          className="w-full"
+          onClick={handleSignIn}
+          disabled={!token || isSigningIn}
+        >
+          {isSigningIn ? "Signing in..." : "Sign in"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,21 @@
+import MagicLinkForm from "./MagicLinkForm";
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: { token?: string; email?: string; callbackUrl?: string };
+}) {
+  const { token, email, callbackUrl } = await searchParams;
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <MagicLinkForm
+          token={token ?? ""}
+          email={email ?? ""}
+          callbackUrl={callbackUrl ?? "/discussion"}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { completeTwoFactorLogin } from "@/app/actions/security.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function TwoFactorLoginForm() {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    setIsVerifying(true);
+
+    try {
+      const result = await completeTwoFactorLogin(code);
+      if (result.success) {
+        router.push("/discussion");
+        router.refresh();
+      } else {
+        setError(result.error || "That code is not valid");
+        setIsVerifying(false);
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+            : "Enter the 6-digit code from your authenticator app"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+        <form onSubmit={handleSubmit}>
+          <FieldGroup>
+            <Field>
+              <FieldLabel>
+                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              </FieldLabel>
+              <Input
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </Field>
+
+            <Field>
+              <Button type="submit" disabled={isVerifying}>
+                {isVerifying ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                  setError("");
+                }}
+              >
+                {useRecoveryCode
+                  ? "Use authenticator code"
+                  : "Use a recovery code"}
+              </Button>
+              <FieldDescription className="text-center">
+                <button
+                  type="button"
+                  className="underline-offset-4 hover:underline"
+                  onClick={() => signOut({ callbackUrl: "/login" })}
+                >
+                  Cancel and sign out
+                </button>
+              </FieldDescription>
+            </Field>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { auth } from "@/app/lib/auth";
+import { redirect } from "next/navigation";
+import TwoFactorLoginForm from "./TwoFactorLoginForm";
+
+export default async function Page() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+  if (!session.twoFactor) {
+    redirect("/discussion");
+  }
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <TwoFactorLoginForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface DiscussAccountDoc {
+  userId: mongoose.Schema.Types.ObjectId;
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  createdAt: Date;
+}
+
+const discussAccountSchema = new Schema<DiscussAccountDoc>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "DiscussUser",
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    providerAccountId: {
+      type: String,
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+discussAccountSchema.index(
+  { provider: 1, providerAccountId: 1 },
+  { unique: true }
+);
+discussAccountSchema.index({ userId: 1, provider: 1 }, { unique: true });
+
+export default mongoose.models.DiscussAccount ||
+  mongoose.model("DiscussAccount", discussAccountSchema);
@@ -1,20 +1,53 @@
 import mongoose, { Schema } from "mongoose";
+import { Reactions } from "../lib/reactions";
+import ReactionsSchema from "./ReactionsSchema";
+
+export interface CommentRevision {
+  description: string;
+  createdAt: Date;
+}
 
 export interface DiscussCommentDoc {
   discussId: string;
+  parentId: string | null;
   userId: mongoose.Schema.Types.ObjectId;
   description: string;
   upVote: number;
+  downVote: number;
+  score: number;
   likedBy: string[];
+  dislikedBy: string[];
+  reactions: Reactions;
+  history: CommentRevision[];
+  editedAt: Date | null;
+  isDeleted: boolean;
   createdAt: Date;
 }
 
+const CommentRevisionSchema = new Schema<CommentRevision>(
+  {
+    description: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 const CommentSchema = new Schema<DiscussCommentDoc>(
   {
     discussId: {
       type: String,
       required: true,
     },
+    parentId: {
+      type: String,
+      default: null,
+    },
     userId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: "DiscussUser",
@@ -29,15 +62,50 @@ const CommentSchema = new Schema<DiscussCommentDoc>(
       required: false,
       default: 0,
     },
+    downVote: {
+      type: Number,
+      default: 0,
+    },
+    score: {
+      type: Number,
+      default: 0,
+    },
     likedBy: {
       type: [String],
       default: [],
     },
+    dislikedBy: {
+      type: [String],
+      default: [],
+    },
+    reactions: {
+      type: ReactionsSchema,
+      default: {},
+    },
+    history: {
+      type: [CommentRevisionSchema],
+      default: [],
+      select: false,
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    isDeleted: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+CommentSchema.index({ description: "text" });
+// Recent posts by a user, for profiles and the posting limits.
+CommentSchema.index({ userId: 1, createdAt: -1 });
+// Keyset paging of a discussion's top-level comments, oldest first.
+CommentSchema.index({ discussId: 1, parentId: 1, createdAt: 1, _id: 1 });
+
 export default mongoose.models.DiscussComment ||
   mongoose.model("DiscussComment", CommentSchema);
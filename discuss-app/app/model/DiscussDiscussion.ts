@@ -1,14 +1,55 @@
 import mongoose, { Schema } from "mongoose";
+import { Reactions } from "../lib/reactions";
+import ReactionsSchema from "./ReactionsSchema";
+
+export interface DiscussionRevision {
+  title: string;
+  description: string;
+  editedBy: string;
+  createdAt: Date;
+}
 
 export interface DiscussionDoc {
   userId: mongoose.Schema.Types.ObjectId;
   title: string;
   description: string;
   upVote: number;
+  downVote: number;
+  score: number;
   likedBy: string[];
+  dislikedBy: string[];
+  reactions: Reactions;
+  tags: string[];
+  commentCount: number;
+  viewCount: number;
+  history: DiscussionRevision[];
+  editedAt: Date | null;
+  editedBy: string | null;
   createdAt: Date;
 }
 
+const DiscussionRevisionSchema = new Schema<DiscussionRevision>(
+  {
+    title: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    editedBy: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 const DiscussionSchema = new Schema<DiscussionDoc>(
   {
     userId: {
@@ -29,15 +70,69 @@ const DiscussionSchema = new Schema<DiscussionDoc>(
       required: false,
       default: 0,
     },
+    downVote: {
+      type: Number,
+      default: 0,
+    },
+    score: {
+      type: Number,
+      default: 0,
+    },
     likedBy: {
       type: [String],
       default: [],
     },
+    dislikedBy: {
+      type: [String],
+      default: [],
+    },
+    reactions: {
+      type: ReactionsSchema,
+      default: {},
+    },
+    tags: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    commentCount: {
+      type: Number,
+      default: 0,
+    },
+    viewCount: {
+      type: Number,
+      default: 0,
+    },
+    history: {
+      type: [DiscussionRevisionSchema],
+      default: [],
+      select: false,
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    editedBy: {
+      type: String,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+DiscussionSchema.index(
+  { title: "text", description: "text" },
+  { weights: { title: 3, description: 1 } }
+);
+// Recent posts by a user, for profiles and the posting limits.
+DiscussionSchema.index({ userId: 1, createdAt: -1 });
+// Keyset paging of the newest-first feed.
+DiscussionSchema.index({ createdAt: -1, _id: -1 });
+// Keyset paging of the top and most discussed feeds.
+DiscussionSchema.index({ score: -1, _id: -1 });
+DiscussionSchema.index({ commentCount: -1, _id: -1 });
+
 export default mongoose.models.Discussion ||
   mongoose.model("Discussion", DiscussionSchema);
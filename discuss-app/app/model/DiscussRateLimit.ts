@@ -0,0 +1,35 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface DiscussRateLimitDoc {
+  key: string;
+  count: number;
+  blockedUntil: Date | null;
+  expiresAt: Date;
+}
+
+// Counters for app/lib/rateLimit.ts. Documents expire on their own once a
+// key has been quiet for its whole window.
+const discussRateLimitSchema = new Schema<DiscussRateLimitDoc>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  blockedUntil: {
+    type: Date,
+    default: null,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+discussRateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.DiscussRateLimit ||
+  mongoose.model("DiscussRateLimit", discussRateLimitSchema);
@@ -0,0 +1,58 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface DiscussSessionDoc {
+  userId: mongoose.Schema.Types.ObjectId;
+  sessionId: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// One document per signed-in browser. The JWT carries `sessionId`, and a
+// token whose document is gone is treated as signed out.
+const discussSessionSchema = new Schema<DiscussSessionDoc>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "DiscussUser",
+      required: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    device: {
+      type: String,
+      default: "",
+    },
+    userAgent: {
+      type: String,
+      default: "",
+    },
+    ip: {
+      type: String,
+      default: "",
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+discussSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.DiscussSession ||
+  mongoose.model("DiscussSession", discussSessionSchema);
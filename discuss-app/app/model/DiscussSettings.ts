@@ -0,0 +1,27 @@
+import mongoose, { Schema } from "mongoose";
+
+// Site-wide policy, stored as a single document keyed "site".
+export interface DiscussSettingsDoc {
+  key: string;
+  requireTwoFactor: boolean;
+}
+
+const discussSettingsSchema = new Schema<DiscussSettingsDoc>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    requireTwoFactor: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.models.DiscussSettings ||
+  mongoose.model("DiscussSettings", discussSettingsSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface DiscussTagDoc {
+  name: string;
+  slug: string;
+  discussionCount: number;
+}
+
+const TagSchema = new Schema<DiscussTagDoc>(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    slug: {
+      type: String,
+      unique: true,
+      required: true,
+    },
+    // Kept in step by lib/tags as discussions are created, retagged and
+    // deleted, so the popular list doesn't have to scan every discussion.
+    discussionCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TagSchema.index({ discussionCount: -1, slug: 1 });
+
+export default mongoose.models.DiscussTag ||
+  mongoose.model("DiscussTag", TagSchema);
@@ -4,6 +4,27 @@ export interface DiscussUserDoc {
   email: string;
   password: string;
   fullName: string;
+  bio: string;
+  role: "user" | "admin";
+  tokenVersion: number;
+  twoFactorEnabled: boolean;
+  twoFactorSecret: string | null;
+  twoFactorPendingSecret: string | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep: number | null;
+  emailVerified?: Date | null;
+  emailVerificationToken: string | null;
+  emailVerificationExpires: Date | null;
+  image: string | null;
+  avatarKey: string | null;
+  pendingEmail: string | null;
+  emailChangeToken: string | null;
+  emailChangeExpires: Date | null;
+  passwordResetToken: string | null;
+  passwordResetExpires: Date | null;
+  unlockToken: string | null;
+  unlockExpires: Date | null;
+  createdAt: Date;
 }
 
 const discussUserSchema = new Schema<DiscussUserDoc>(
@@ -21,6 +42,98 @@ const discussUserSchema = new Schema<DiscussUserDoc>(
       type: String,
       required: false,
     },
+    bio: {
+      type: String,
+      default: "",
+    },
+    role: {
+      type: String,
+      enum: ["user", "admin"],
+      default: "user",
+    },
+    // Bumped to invalidate every session the user has open.
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      default: null,
+      select: false,
+    },
+    // Left without a default: accounts created before verification existed
+    // have no value and are treated as verified, new accounts start as null.
+    emailVerified: {
+      type: Date,
+    },
+    emailVerificationToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      default: null,
+    },
+    image: {
+      type: String,
+      default: null,
+    },
+    avatarKey: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    pendingEmail: {
+      type: String,
+      default: null,
+    },
+    emailChangeToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    emailChangeExpires: {
+      type: Date,
+      default: null,
+    },
+    passwordResetToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      default: null,
+    },
+    unlockToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    unlockExpires: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
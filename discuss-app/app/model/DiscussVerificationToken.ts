@@ -0,0 +1,33 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface DiscussVerificationTokenDoc {
+  identifier: string;
+  token: string;
+  expires: Date;
+}
+
+// Magic-link tokens. NextAuth hashes the token before handing it to the
+// adapter, so only the hash is stored here.
+const discussVerificationTokenSchema = new Schema<DiscussVerificationTokenDoc>({
+  identifier: {
+    type: String,
+    required: true,
+  },
+  token: {
+    type: String,
+    required: true,
+  },
+  expires: {
+    type: Date,
+    required: true,
+  },
+});
+
+discussVerificationTokenSchema.index(
+  { identifier: 1, token: 1 },
+  { unique: true }
+);
+discussVerificationTokenSchema.index({ expires: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.DiscussVerificationToken ||
+  mongoose.model("DiscussVerificationToken", discussVerificationTokenSchema);
@@ -0,0 +1,32 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface DiscussViewDoc {
+  discussId: mongoose.Schema.Types.ObjectId;
+  userId: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+}
+
+// One document per signed-in viewer of a discussion, so `viewCount` only
+// goes up the first time someone opens it.
+const ViewSchema = new Schema<DiscussViewDoc>(
+  {
+    discussId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Discussion",
+      required: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "DiscussUser",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ViewSchema.index({ discussId: 1, userId: 1 }, { unique: true });
+
+export default mongoose.models.DiscussView ||
+  mongoose.model("DiscussView", ViewSchema);
@@ -0,0 +1,25 @@
+import { Schema } from "mongoose";
+import { reactionKeys, Reactions, ReactionSet } from "../lib/reactions";
+
+const ReactionSetSchema = new Schema<ReactionSet>(
+  {
+    users: {
+      type: [String],
+      default: [],
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const ReactionsSchema = new Schema<Reactions>(
+  Object.fromEntries(
+    reactionKeys.map((key) => [key, { type: ReactionSetSchema }])
+  ),
+  { _id: false }
+);
+
+export default ReactionsSchema;
@@ -17,8 +17,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { useState } from "react";
 import { createDiscussAccount } from "../actions/auth.actions";
-import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { signIn } from "next-auth/react";
 
 export default function Page() {
   const [fullName, setFullName] = useState("");
@@ -26,8 +26,7 @@ export default function Page() {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [error, setError] = useState("");
-
-  const router = useRouter();
+  const [isRegistered, setIsRegistered] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -42,7 +41,7 @@ export default function Page() {
       if (result?.error) {
         setError(result.error);
       } else {
-        router.push("/login");
+        setIsRegistered(true);
       }
     } catch (error) {
       setError("An unexpected error occurred. Please try again.");
@@ -65,69 +64,85 @@ export default function Page() {
                 {error}
               </div>
             )}
-            <form onSubmit={handleSubmit}>
-              <FieldGroup>
-                <Field>
-                  <FieldLabel>Full name</FieldLabel>
-                  <Input
-                    required
-                    placeholder="John Doe"
-                    value={fullName}
-                    onChange={(e) => setFullName(e.target.value)}
-                  />
-                </Field>
+            {isRegistered ? (
+              <FieldDescription>
+                We sent a verification link to {email}. Open it to activate your
+                account, then <Link href="/login">sign in</Link>.
+              </FieldDescription>
+            ) : (
+              <form onSubmit={handleSubmit}>
+                <FieldGroup>
+                  <Field>
+                    <FieldLabel>Full name</FieldLabel>
+                    <Input
+                      required
+                      placeholder="John Doe"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                    />
+                  </Field>
 
-                <Field>
-                  <FieldLabel>Email</FieldLabel>
-                  <Input
-                    required
-                    placeholder="user@example.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                  />
-                  <FieldDescription>
-                    We&apos;ll use this to contact you. We will not share your
-                    email with anyone else.
-                  </FieldDescription>
-                </Field>
+                  <Field>
+                    <FieldLabel>Email</FieldLabel>
+                    <Input
+                      required
+                      placeholder="user@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                    />
+                    <FieldDescription>
+                      We&apos;ll use this to contact you. We will not share your
+                      email with anyone else.
+                    </FieldDescription>
+                  </Field>
 
-                <Field>
-                  <FieldLabel>Password</FieldLabel>
-                  <Input
-                    required
-                    type="password"
-                    value={password}
-                    autoComplete="new-password"
-                    onChange={(e) => setPassword(e.target.value)}
-                  />
-                  <FieldDescription>
-                    Must be 8 characters long.
-                  </FieldDescription>
-                </Field>
+                  <Field>
+                    <FieldLabel>Password</FieldLabel>
+                    <Input
+                      required
+                      type="password"
+                      value={password}
+                      autoComplete="new-password"
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                    <FieldDescription>
+                      Must be 8 characters long.
+                    </FieldDescription>
+                  </Field>
 
-                <Field>
-                  <FieldLabel>Confirm Password</FieldLabel>
-                  <Input
-                    required
-                    type="password"
-                    value={confirmPassword}
-                    onChange={(e) => setConfirmPassword(e.target.value)}
-                  />
-                  <FieldDescription>
-                    Please confirm your password.
-                  </FieldDescription>
-                </Field>
-              </FieldGroup>
-              <FieldGroup className="mt-3">
-                <Field>
-                  <Button type="submit">Create Account</Button>
-                  <Button variant="outline">Sign up with Google</Button>
-                  <FieldDescription className="text-center">
-                    Already have an account? <Link href="/login">Sign in</Link>
-                  </FieldDescription>
-                </Field>
-              </FieldGroup>
-            </form>
+                  <Field>
+                    <FieldLabel>Confirm Password</FieldLabel>
+                    <Input
+                      required
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                    />
+                    <FieldDescription>
+                      Please confirm your password.
+                    </FieldDescription>
+                  </Field>
+                </FieldGroup>
+                <FieldGroup className="mt-3">
+                  <Field>
+                    <Button type="submit">Create Account</Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        signIn("google", { callbackUrl: "/discussion" })
+                      }
+                    >
+                      Sign up with Google
+                    </Button>
+                    <FieldDescription className="text-center">
+                      Already have an account?{" "}
+                      <Link href="/login">Sign in</Link>
+                    </FieldDescription>
+                  </Field>
+                </FieldGroup>
+              </form>
+            )}
           </CardContent>
         </Card>
       </div>
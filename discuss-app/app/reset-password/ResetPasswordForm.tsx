@@ -0,0 +1,108 @@
+"use client";
+
+import { resetPassword } from "@/app/actions/auth.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function ResetPasswordForm({ token }: { token: string }) {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    if (password !== confirmPassword) {
+      setError("Password do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await resetPassword(token, password);
+      if (result.success) {
+        router.push("/login");
+      } else {
+        setError(result.error || "Failed to reset password");
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>Your reset link can only be used once</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+        <form onSubmit={handleSubmit}>
+          <FieldGroup>
+            <Field>
+              <FieldLabel>New password</FieldLabel>
+              <Input
+                required
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <FieldDescription>
+                At least 8 characters with upper and lower case letters, a
+                number and a special character.
+              </FieldDescription>
+            </Field>
+
+            <Field>
+              <FieldLabel>Confirm Password</FieldLabel>
+              <Input
+                required
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+            </Field>
+
+            <Field>
+              <Button type="submit" disabled={!token || isSaving}>
+                {isSaving ? "Saving..." : "Reset password"}
+              </Button>
+              <FieldDescription className="text-center">
+                Need a new link?{" "}
+                <Link href="/forgot-password">Request another</Link>
+              </FieldDescription>
+            </Field>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { removeAvatar, uploadAvatar } from "@/app/actions/settings.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useRouter } from "next/navigation";
+import { useRef, useState } from "react";
+import UserAvatar from "../discussion/components/UserAvatar";
+
+interface AvatarFormProps {
+  fullName: string;
+  image: string | null;
+}
+
+export default function AvatarForm({ fullName, image }: AvatarFormProps) {
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const router = useRouter();
+
+  const run = async (
+    action: () => Promise<{ success: boolean; error?: string }>
+  ) => {
+    setError("");
+    setIsSaving(true);
+
+    try {
+      const result = await action();
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to update avatar");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+      if (inputRef.current) {
+        inputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const formData = new FormData();
+    formData.append("avatar", file);
+    run(() => uploadAvatar(formData));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Avatar</CardTitle>
+        <CardDescription>
+          JPEG, PNG, WebP or GIF, up to 5 MB. Images are cropped to a square.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-4">
+        <UserAvatar name={fullName} image={image} size={64} />
+        <Input
+          ref={inputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/gif"
+          className="hidden"
+          onChange={handleChange}
+        />
+        <Button
+          variant="outline"
+          disabled={isSaving}
+          onClick={() => inputRef.current?.click()}
+        >
+          {isSaving ? "Uploading..." : "Upload new avatar"}
+        </Button>
+        {image && (
+          <Button
+            variant="ghost"
+            disabled={isSaving}
+            onClick={() => run(removeAvatar)}
+          >
+            Remove
+          </Button>
+        )}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
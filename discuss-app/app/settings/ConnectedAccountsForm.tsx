@@ -0,0 +1,105 @@
+"use client";
+
+import {
+  startAccountLink,
+  unlinkAccount,
+} from "@/app/actions/settings.actions";
+import { OAuthProvider, oauthProviders } from "@/app/lib/oauth";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { signIn } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+interface ConnectedAccountsFormProps {
+  linkedAccounts: { provider: string; email: string }[];
+  error?: string;
+}
+
+export default function ConnectedAccountsForm({
+  linkedAccounts,
+  error: initialError = "",
+}: ConnectedAccountsFormProps) {
+  const [error, setError] = useState(initialError);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const router = useRouter();
+
+  const handleConnect = async (provider: OAuthProvider) => {
+    setError("");
+    setPending(provider);
+    const result = await startAccountLink();
+    if (result.success) {
+      await signIn(provider, { callbackUrl: "/settings" });
+    } else {
+      setError(result.error || "Failed to connect account");
+      setPending(null);
+    }
+  };
+
+  const handleDisconnect = async (provider: OAuthProvider) => {
+    setError("");
+    setPending(provider);
+    try {
+      const result = await unlinkAccount(provider);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to disconnect account");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected accounts</CardTitle>
+        <CardDescription>
+          Sign in with these instead of your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {Object.entries(oauthProviders).map(([provider, label]) => {
+          const linked = linkedAccounts.find(
+            (account) => account.provider === provider
+          );
+          return (
+            <div key={provider} className="flex items-center gap-3">
+              <div className="flex flex-col">
+                <span className="font-medium">{label}</span>
+                <span className="text-sm text-muted-foreground">
+                  {linked ? linked.email : "Not connected"}
+                </span>
+              </div>
+              <Button
+                className="ml-auto"
+                variant="outline"
+                size="sm"
+                disabled={pending !== null}
+                onClick={() =>
+                  linked
+                    ? handleDisconnect(provider as OAuthProvider)
+                    : handleConnect(provider as OAuthProvider)
+                }
+              >
+                {linked ? "Disconnect" : "Connect"}
+              </Button>
+            </div>
+          );
+        })}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
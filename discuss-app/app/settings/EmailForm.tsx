@@ -0,0 +1,113 @@
+"use client";
+
+import { requestEmailChange } from "@/app/actions/settings.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+interface EmailFormProps {
+  email: string;
+  pendingEmail: string | null;
+  hasPassword: boolean;
+}
+
+export default function EmailForm({
+  email,
+  pendingEmail,
+  hasPassword,
+}: EmailFormProps) {
+  const [newEmail, setNewEmail] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    setIsSaving(true);
+
+    try {
+      const result = await requestEmailChange(newEmail, currentPassword);
+      if (result.success) {
+        setNewEmail("");
+        setCurrentPassword("");
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to change email");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email</CardTitle>
+        <CardDescription>
+          Your current email is <strong>{email}</strong>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit}>
+          <FieldGroup>
+            <Field>
+              <FieldLabel>New email</FieldLabel>
+              <Input
+                required
+                type="email"
+                placeholder="user@example.com"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                disabled={isSaving}
+              />
+              <FieldDescription>
+                {pendingEmail
+                  ? `We sent a confirmation link to ${pendingEmail}. Your email changes once you open it.`
+                  : "We'll send a confirmation link to the new address."}
+              </FieldDescription>
+            </Field>
+            {hasPassword && (
+              <Field>
+                <FieldLabel>Current password</FieldLabel>
+                <Input
+                  required
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  disabled={isSaving}
+                />
+              </Field>
+            )}
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <Field orientation="horizontal">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Sending..." : "Change email"}
+              </Button>
+            </Field>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
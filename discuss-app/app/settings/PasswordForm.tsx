@@ -0,0 +1,125 @@
+"use client";
+
+import { changePassword } from "@/app/actions/settings.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useState } from "react";
+
+export default function PasswordForm({
+  hasPassword,
+}: {
+  hasPassword: boolean;
+}) {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    setMessage("");
+    if (newPassword !== confirmPassword) {
+      setError("Password do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await changePassword(currentPassword, newPassword);
+      if (result.success) {
+        setCurrentPassword("");
+        setNewPassword("");
+        setConfirmPassword("");
+        setMessage("Password updated");
+      } else {
+        setError(result.error || "Failed to change password");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>
+          {hasPassword
+            ? "Enter your current password to choose a new one."
+            : "Your account has no password yet. Set one to sign in with your email."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit}>
+          <FieldGroup>
+            {hasPassword && (
+              <Field>
+                <FieldLabel>Current password</FieldLabel>
+                <Input
+                  required
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  disabled={isSaving}
+                />
+              </Field>
+            )}
+            <Field>
+              <FieldLabel>New password</FieldLabel>
+              <Input
+                required
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                disabled={isSaving}
+              />
+              <FieldDescription>
+                At least 8 characters with upper and lower case letters, a
+                number and a special character.
+              </FieldDescription>
+            </Field>
+            <Field>
+              <FieldLabel>Confirm new password</FieldLabel>
+              <Input
+                required
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                disabled={isSaving}
+              />
+            </Field>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {message && <p className="text-green-600 text-sm">{message}</p>}
+            <Field orientation="horizontal">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Change password"}
+              </Button>
+            </Field>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { updateProfile } from "@/app/actions/settings.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+interface ProfileFormProps {
+  fullName: string;
+  bio: string;
+}
+
+export default function ProfileForm(props: ProfileFormProps) {
+  const [fullName, setFullName] = useState(props.fullName);
+  const [bio, setBio] = useState(props.bio);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError("");
+    setMessage("");
+    setIsSaving(true);
+
+    try {
+      const result = await updateProfile(fullName, bio);
+      if (result.success) {
+        setMessage("Profile updated");
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to update profile");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>Shown on your public profile page.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit}>
+          <FieldGroup>
+            <Field>
+              <FieldLabel>Full name</FieldLabel>
+              <Input
+                required
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                disabled={isSaving}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>Bio</FieldLabel>
+              <Textarea
+                rows={4}
+                maxLength={500}
+                value={bio}
+                onChange={(e) => setBio(e.target.value)}
+                disabled={isSaving}
+              />
+              <FieldDescription>{bio.length}/500</FieldDescription>
+            </Field>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {message && <p className="text-green-600 text-sm">{message}</p>}
+            <Field orientation="horizontal">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save profile"}
+              </Button>
+            </Field>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import Link from "next/link";
+
+export default function SessionsCard() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>
+          See the devices signed in to your account and sign them out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="outline" asChild>
+          <Link href="/settings/sessions">Manage sessions</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
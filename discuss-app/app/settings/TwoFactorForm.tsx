@@ -0,0 +1,207 @@
+"use client";
+
+import {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+} from "@/app/actions/security.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+interface TwoFactorFormProps {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  required: boolean;
+}
+
+type Setup = { secret: string; qrCode: string };
+
+export default function TwoFactorForm({
+  enabled,
+  recoveryCodesLeft,
+  required,
+}: TwoFactorFormProps) {
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+
+  const run = async <T extends { success: boolean; error?: string }>(
+    action: () => Promise<T>,
+    onSuccess: (result: T) => void
+  ) => {
+    setError("");
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        setCode("");
+        onSuccess(result);
+      } else {
+        setError(result.error || "Something went wrong");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const codeField = (label: string) => (
+    <Field>
+      <FieldLabel>{label}</FieldLabel>
+      <Input
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        disabled={isSaving}
+      />
+    </Field>
+  );
+
+  let content: React.ReactNode;
+  if (recoveryCodes) {
+    content = (
+      <>
+        <p className="text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once
+          if you lose your authenticator. They won&apos;t be shown again.
+        </p>
+        <pre className="grid grid-cols-2 gap-1 rounded-md border p-3 text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </pre>
+        <Button
+          onClick={() => {
+            setRecoveryCodes(null);
+            router.refresh();
+          }}
+        >
+          I&apos;ve saved my codes
+        </Button>
+      </>
+    );
+  } else if (setup) {
+    content = (
+      <>
+        <p className="text-sm">
+          Scan this QR code with your authenticator app, then enter the code it
+          shows.
+        </p>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={setup.qrCode}
+          alt="Two-factor authentication QR code"
+          className="h-44 w-44 rounded-md border bg-white"
+        />
+        <FieldDescription>
+          Can&apos;t scan it? Enter this key instead:{" "}
+          <code className="break-all">{setup.secret}</code>
+        </FieldDescription>
+        {codeField("Authentication code")}
+        <div className="flex gap-2">
+          <Button
+            disabled={isSaving}
+            onClick={() =>
+              run(
+                () => enableTwoFactor(code),
+                (result) => {
+                  setSetup(null);
+                  setRecoveryCodes(result.recoveryCodes ?? []);
+                }
+              )
+            }
+          >
+            Turn on
+          </Button>
+          <Button variant="outline" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+        </div>
+      </>
+    );
+  } else if (enabled) {
+    content = (
+      <>
+        <p className="text-sm text-muted-foreground">
+          Two-factor authentication is on. You have {recoveryCodesLeft} recovery
+          code{recoveryCodesLeft === 1 ? "" : "s"} left.
+        </p>
+        {codeField("Authentication or recovery code")}
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            disabled={isSaving}
+            onClick={() =>
+              run(
+                () => regenerateRecoveryCodes(code),
+                (result) => setRecoveryCodes(result.recoveryCodes ?? [])
+              )
+            }
+          >
+            New recovery codes
+          </Button>
+          {!required && (
+            <Button
+              variant="destructive"
+              disabled={isSaving}
+              onClick={() =>
+                run(
+                  () => disableTwoFactor(code),
+                  () => router.refresh()
+                )
+              }
+            >
+              Turn off
+            </Button>
+          )}
+        </div>
+      </>
+    );
+  } else {
+    content = (
+      <Button
+        className="self-start"
+        disabled={isSaving}
+        onClick={() =>
+          run(beginTwoFactorSetup, (result) =>
+            setSetup({ secret: result.secret!, qrCode: result.qrCode! })
+          )
+        }
+      >
+        Set up two-factor authentication
+      </Button>
+    );
+  }
+
+  return (
+    <Card id="two-factor">
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {content}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
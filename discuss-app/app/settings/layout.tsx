@@ -0,0 +1,31 @@
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import DiscussSidebar from "../discussion/components/DiscussSidebar";
+import { auth } from "../lib/auth";
+import { redirect } from "next/navigation";
+
+// Unlike the discussion layout this one lets users through when the site
+// requires two-factor authentication and they haven't set it up yet, since
+// this is where they do it.
+export default async function Layout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const session = await auth();
+  if (!session) {
+    redirect("/login");
+  }
+  if (session.twoFactor) {
+    redirect("/login/two-factor");
+  }
+
+  return (
+    <SidebarProvider>
+      <DiscussSidebar />
+      <main className="w-full m-5">
+        <SidebarTrigger />
+        {children}
+      </main>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,74 @@
+import { getAccountSettings } from "@/app/actions/settings.actions";
+import { getTwoFactorStatus } from "@/app/actions/security.actions";
+import { auth } from "@/app/lib/auth";
+import { Label } from "@/components/ui/label";
+import { redirect } from "next/navigation";
+import { authErrorMessage } from "@/app/lib/authErrors";
+import AvatarForm from "./AvatarForm";
+import ConnectedAccountsForm from "./ConnectedAccountsForm";
+import EmailForm from "./EmailForm";
+import PasswordForm from "./PasswordForm";
+import TwoFactorForm from "./TwoFactorForm";
+import ProfileForm from "./ProfileForm";
+import SessionsCard from "./SessionsCard";
+
+export default async function SettingsPage({
+  searchParams,
+}: {
+  searchParams: { error?: string };
+}) {
+  const { error } = await searchParams;
+  const session = await auth();
+  const twoFactor = await getTwoFactorStatus();
+
+  if (!twoFactor) {
+    redirect("/login");
+  }
+
+  const twoFactorForm = (
+    <TwoFactorForm
+      enabled={twoFactor.enabled}
+      recoveryCodesLeft={twoFactor.recoveryCodesLeft}
+      required={twoFactor.required}
+    />
+  );
+
+  if (session?.twoFactorSetup) {
+    return (
+      <div className="flex flex-col gap-4 md:w-2/3">
+        <Label className="mb-3 text-3xl">Settings</Label>
+        <div className="bg-amber-100 border border-amber-400 text-amber-800 px-4 py-3 rounded">
+          This site requires two-factor authentication. Set it up below to
+          continue.
+        </div>
+        {twoFactorForm}
+      </div>
+    );
+  }
+
+  const settings = await getAccountSettings();
+
+  if (!settings) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="flex flex-col gap-4 md:w-2/3">
+      <Label className="mb-3 text-3xl">Settings</Label>
+      <AvatarForm fullName={settings.fullName} image={settings.image} />
+      <ProfileForm fullName={settings.fullName} bio={settings.bio} />
+      <EmailForm
+        email={settings.email}
+        pendingEmail={settings.pendingEmail}
+        hasPassword={settings.hasPassword}
+      />
+      <PasswordForm hasPassword={settings.hasPassword} />
+      {twoFactorForm}
+      <ConnectedAccountsForm
+        linkedAccounts={settings.linkedAccounts}
+        error={authErrorMessage(error)}
+      />
+      <SessionsCard />
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import {
+  ActiveSession,
+  revokeSession,
+  signOutEverywhere,
+} from "@/app/actions/security.actions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatRelativeTime } from "@/lib/dateUtils";
+import { signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function SessionList({
+  sessions,
+}: {
+  sessions: ActiveSession[];
+}) {
+  const [showSignOutDialog, setShowSignOutDialog] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const router = useRouter();
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setError("");
+    setPendingId(session._id);
+
+    try {
+      const result = await revokeSession(session._id);
+      if (!result.success) {
+        setError(result.error || "Failed to sign out session");
+      } else if (session.isCurrent) {
+        await signOut({ callbackUrl: "/login" });
+      } else {
+        router.refresh();
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setError("");
+    setPendingId("all");
+
+    try {
+      const result = await signOutEverywhere();
+      if (result.success) {
+        await signOut({ callbackUrl: "/login" });
+      } else {
+        setError(result.error || "Failed to sign out everywhere");
+        setPendingId(null);
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      console.error(err);
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Where you&apos;re signed in</CardTitle>
+        <CardDescription>
+          Sign out any session you don&apos;t recognise. It stops working on its
+          next request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {sessions.map((session) => (
+          <div
+            key={session._id}
+            className="flex items-center justify-between gap-3 rounded-md border p-3"
+          >
+            <div className="flex flex-col gap-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  {session.device || "Unknown device"}
+                </span>
+                {session.isCurrent && (
+                  <Badge variant="secondary">This device</Badge>
+                )}
+              </div>
+              <span
+                className="text-sm text-muted-foreground"
+                suppressHydrationWarning
+              >
+                {session.ip || "Unknown IP"} &middot; last active{" "}
+                {formatRelativeTime(session.lastSeenAt)}
+              </span>
+              <span
+                className="truncate text-xs text-muted-foreground"
+                title={session.userAgent}
+              >
+                {session.userAgent}
+              </span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={pendingId !== null}
+              onClick={() => handleRevoke(session)}
+            >
+              {pendingId === session._id ? "Signing out..." : "Sign out"}
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="destructive"
+          className="self-start"
+          disabled={pendingId !== null}
+          onClick={() => setShowSignOutDialog(true)}
+        >
+          Sign out all devices
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={showSignOutDialog} onOpenChange={setShowSignOutDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out all devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session, including this one, is signed out. You&apos;ll need
+              to log in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={pendingId !== null}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleSignOutEverywhere();
+              }}
+              disabled={pendingId !== null}
+            >
+              {pendingId === "all" ? "Signing out..." : "Sign out everywhere"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
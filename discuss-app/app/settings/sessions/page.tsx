@@ -0,0 +1,26 @@
+import { getActiveSessions } from "@/app/actions/security.actions";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import SessionList from "./SessionList";
+
+export default async function SessionsPage() {
+  const sessions = await getActiveSessions();
+
+  if (!sessions) {
+    redirect("/settings");
+  }
+
+  return (
+    <div className="flex flex-col gap-4 md:w-2/3">
+      <Link
+        href="/settings"
+        className="text-sm text-muted-foreground hover:underline"
+      >
+        &larr; Back to settings
+      </Link>
+      <Label className="mb-3 text-3xl">Active sessions</Label>
+      <SessionList sessions={sessions} />
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { confirmEmailChange } from "@/app/actions/settings.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import Link from "next/link";
+import { useState } from "react";
+
+// Confirmation needs a click rather than happening on page load, so mail
+// scanners that prefetch links can't use up the token.
+export default function ConfirmEmailChange({ token }: { token: string }) {
+  const [status, setStatus] = useState<"idle" | "saving" | "done">("idle");
+  const [error, setError] = useState("");
+
+  const handleConfirm = async () => {
+    setStatus("saving");
+    setError("");
+
+    try {
+      const result = await confirmEmailChange(token);
+      if (result.success) {
+        setStatus("done");
+      } else {
+        setError(result.error || "Failed to confirm email");
+        setStatus("idle");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      setStatus("idle");
+      console.error(err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Confirm your new email</CardTitle>
+        <CardDescription>
+          {status === "done"
+            ? "Your email address has been updated."
+            : "Click below to start using this address for your account."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {status === "done" ? (
+          <Button asChild>
+            <Link href="/settings">Back to settings</Link>
+          </Button>
+        ) : (
+          <Button
+            onClick={handleConfirm}
+            disabled={!token || status === "saving"}
+          >
+            {status === "saving" ? "Confirming..." : "Confirm email"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,15 @@
+import ConfirmEmailChange from "./ConfirmEmailChange";
+
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: { token?: string };
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="md:w-2/3">
+      <ConfirmEmailChange token={token ?? ""} />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { unlockAccount } from "@/app/actions/auth.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import Link from "next/link";
+import { useState } from "react";
+
+// Unlocking needs a click rather than happening on page load, so mail
+// scanners that prefetch links can't use up the token.
+export default function UnlockAccountForm({ token }: { token: string }) {
+  const [status, setStatus] = useState<"idle" | "saving" | "done">("idle");
+  const [error, setError] = useState("");
+
+  const handleUnlock = async () => {
+    setStatus("saving");
+    setError("");
+
+    try {
+      const result = await unlockAccount(token);
+      if (result.success) {
+        setStatus("done");
+      } else {
+        setError(result.error || "Failed to unlock account");
+        setStatus("idle");
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Unlock sign-in</CardTitle>
+        <CardDescription>
+          {status === "done"
+            ? "Sign-in is unlocked. You can log in now."
+            : "Sign-in to your account was paused after too many failed attempts."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {status === "done" ? (
+          <Button asChild>
+            <Link href="/login">Go to login</Link>
+          </Button>
+        ) : (
+          <Button
+            onClick={handleUnlock}
+            disabled={!token || status === "saving"}
+          >
+            {status === "saving" ? "Unlocking..." : "Unlock sign-in"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
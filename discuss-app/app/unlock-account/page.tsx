@@ -0,0 +1,17 @@
+import UnlockAccountForm from "./UnlockAccountForm";
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: { token?: string };
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <UnlockAccountForm token={token ?? ""} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { getStorage } from "@/app/lib/storage";
+
+const contentTypes: Record<string, string> = {
+  webp: "image/webp",
+  png: "image/png",
+  jpg: "image/jpeg",
+};
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const extension = key[key.length - 1].split(".").pop() ?? "";
+  const contentType = contentTypes[extension];
+  if (!contentType) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  let data: Buffer | null;
+  try {
+    data = await getStorage().get(key.join("/"));
+  } catch {
+    data = null;
+  }
+  if (!data) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Keys are never reused, so the files can be cached forever.
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
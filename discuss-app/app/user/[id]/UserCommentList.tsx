@@ -0,0 +1,100 @@
+"use client";
+
+import {
+  getUserComments,
+  UserCommentItem,
+} from "@/app/actions/comment.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatRelativeTime } from "@/lib/dateUtils";
+import Link from "next/link";
+import { useState } from "react";
+
+interface UserCommentListProps {
+  userId: string;
+  comments: UserCommentItem[];
+  nextCursor: string | null;
+}
+
+export default function UserCommentList({
+  userId,
+  comments: initialComments,
+  nextCursor: initialCursor,
+}: UserCommentListProps) {
+  const [comments, setComments] = useState(initialComments);
+  const [nextCursor, setNextCursor] = useState(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const page = await getUserComments(userId, nextCursor);
+      setComments((current) => [...current, ...page.comments]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Error loading comments:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (comments.length === 0) {
+    return (
+      <Card className="md:w-3/4">
+        <CardContent className="text-center">
+          <CardDescription className="text-sm py-8">
+            No comments yet
+          </CardDescription>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="flex flex-col md:w-3/4">
+      {comments.map((comment) => (
+        <Card key={comment._id} className="m-1">
+          <CardHeader>
+            <CardTitle className="text-base">
+              <Link
+                href={`/discussion/${comment.discussId}?thread=${comment._id}`}
+                className="hover:underline"
+              >
+                {comment.discussionTitle || "Deleted discussion"}
+              </Link>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CardDescription>{comment.excerpt}</CardDescription>
+          </CardContent>
+          <CardFooter className="flex justify-between text-sm text-muted-foreground">
+            <span>{comment.score} points</span>
+            <span suppressHydrationWarning>
+              {formatRelativeTime(comment.createdAt)}
+            </span>
+          </CardFooter>
+        </Card>
+      ))}
+      {isLoading && <Skeleton className="m-1 h-24" />}
+      {nextCursor && !isLoading && (
+        <div className="flex justify-center mt-2">
+          <Button variant="outline" size="sm" onClick={handleLoadMore}>
+            Load more comments
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
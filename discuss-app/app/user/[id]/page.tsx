@@ -0,0 +1,113 @@
+import { getUserProfile } from "@/app/actions/user.actions";
+import { getUserDiscussions } from "@/app/actions/discussion.actions";
+import { getUserComments } from "@/app/actions/comment.actions";
+import { Button } from "@/components/ui/button";
+import { ButtonGroup } from "@/components/ui/button-group";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDate } from "@/lib/dateUtils";
+import Link from "next/link";
+import DiscussHome from "../../discussion/components/DiscussHome";
+import UserCommentList from "./UserCommentList";
+import UserAvatar from "../../discussion/components/UserAvatar";
+
+export default async function UserProfilePage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { tab?: string };
+}) {
+  const { id } = await params;
+  const { tab } = await searchParams;
+  const profile = await getUserProfile(id);
+
+  if (!profile)
+    return (
+      <Card key={0}>
+        <CardTitle>User not found</CardTitle>
+      </Card>
+    );
+
+  const activeTab = tab === "comments" ? "comments" : "discussions";
+  const discussionPage =
+    activeTab === "discussions" ? await getUserDiscussions(profile._id) : null;
+  const commentPage =
+    activeTab === "comments" ? await getUserComments(profile._id) : null;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Card className="md:w-3/4">
+        <CardHeader className="flex items-center gap-4">
+          <UserAvatar name={profile.fullName} image={profile.image} size={64} />
+          <div className="flex flex-col gap-1">
+            <CardTitle className="text-2xl">{profile.fullName}</CardTitle>
+            <CardDescription>
+              Joined {formatDate(profile.createdAt)}
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          {profile.bio && <p className="whitespace-pre-line">{profile.bio}</p>}
+          <div className="flex gap-6 text-sm text-muted-foreground">
+            <span>
+              <strong className="text-foreground">
+                {profile.discussionCount}
+              </strong>{" "}
+              discussions
+            </span>
+            <span>
+              <strong className="text-foreground">
+                {profile.commentCount}
+              </strong>{" "}
+              comments
+            </span>
+            <span>
+              <strong className="text-foreground">
+                {profile.upvotesReceived}
+              </strong>{" "}
+              upvotes received
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ButtonGroup>
+        <Button
+          size="sm"
+          variant={activeTab === "discussions" ? "default" : "outline"}
+          asChild
+        >
+          <Link href={`/user/${profile._id}`}>Discussions</Link>
+        </Button>
+        <Button
+          size="sm"
+          variant={activeTab === "comments" ? "default" : "outline"}
+          asChild
+        >
+          <Link href={`/user/${profile._id}?tab=comments`}>Comments</Link>
+        </Button>
+      </ButtonGroup>
+
+      {discussionPage && (
+        <DiscussHome
+          discussions={discussionPage.discussions}
+          nextCursor={discussionPage.nextCursor}
+          loadMore={getUserDiscussions.bind(null, profile._id)}
+        />
+      )}
+      {commentPage && (
+        <UserCommentList
+          userId={profile._id}
+          comments={commentPage.comments}
+          nextCursor={commentPage.nextCursor}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { verifyEmail } from "@/app/actions/auth.actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import Link from "next/link";
+import { useState } from "react";
+
+// Verification needs a click rather than happening on page load, so mail
+// scanners that prefetch links can't use up the token.
+export default function VerifyEmailForm({ token }: { token: string }) {
+  const [status, setStatus] = useState<"idle" | "saving" | "done">("idle");
+  const [error, setError] = useState("");
+
+  const handleVerify = async () => {
+    setStatus("saving");
+    setError("");
+
+    try {
+      const result = await verifyEmail(token);
+      if (result.success) {
+        setStatus("done");
+      } else {
+        setError(result.error || "Failed to verify email");
+        setStatus("idle");
+      }
+    } catch (error) {
+      if (error instanceof Error) setError(error.message);
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Verify your email</CardTitle>
+        <CardDescription>
+          {status === "done"
+            ? "Your email is verified. You can log in now."
+            : "Confirm this is your email address to activate your account."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {status === "done" ? (
+          <Button asChild>
+            <Link href="/login">Go to login</Link>
+          </Button>
+        ) : (
+          <Button
+            onClick={handleVerify}
+            disabled={!token || status === "saving"}
+          >
+            {status === "saving" ? "Verifying..." : "Verify email"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
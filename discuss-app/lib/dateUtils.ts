@@ -6,3 +6,7 @@ dayjs.extend(relativeTime);
 export function formatRelativeTime(date: string | Date): string {
   return dayjs(date).fromNow();
 }
+
+export function formatDate(date: string | Date): string {
+  return dayjs(date).format("MMMM D, YYYY");
+}
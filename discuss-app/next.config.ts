@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Leaves headroom over the 5 MB avatar limit for multipart overhead.
+      bodySizeLimit: "6mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,27 @@
+import mongoose from "mongoose";
+import connectDB from "../app/lib/mongodb";
+import DiscussUser from "../app/model/DiscussUser";
+
+async function main() {
+  const email = process.argv[2];
+  if (!email) {
+    throw new Error("Usage: npm run make:admin -- <email>");
+  }
+
+  await connectDB();
+  const user = await DiscussUser.findOneAndUpdate(
+    { email },
+    { role: "admin" }
+  ).collation({ locale: "en", strength: 2 });
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+  console.log(`${email} is now an admin`);
+}
+
+main()
+  .catch((err) => {
+    console.error("Make admin failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
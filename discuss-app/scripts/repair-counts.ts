@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+import { repairCounts } from "../app/lib/repair";
+
+async function main() {
+  const result = await repairCounts();
+  console.log(
+    `Repaired ${result.discussionsUpdated} discussions and ${result.commentsUpdated} comments`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error("Repair failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,35 @@
+import "next-auth";
+import "next-auth/jwt";
+
+type Role = "user" | "admin";
+
+declare module "next-auth" {
+  interface User {
+    role?: Role;
+    twoFactorPending?: boolean;
+    twoFactorSetupRequired?: boolean;
+    tokenVersion?: number;
+  }
+
+  interface Session {
+    // Present only while the second factor is outstanding.
+    twoFactor?: { userId: string; nonce: string };
+    // Present only while the site requires two-factor and it isn't set up.
+    twoFactorSetup?: { userId: string };
+    twoFactorSetupRequired?: boolean;
+    twoFactorProof?: string;
+    // Identifies this browser in the session registry.
+    sessionId?: string;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    id?: string;
+    role?: Role;
+    twoFactorNonce?: string | null;
+    twoFactorSetupRequired?: boolean;
+    sid?: string;
+    tokenVersion?: number;
+  }
+}